@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import * as YAML from 'yaml';
+import { LeafValue } from './DebugConfigTree';
+
+/**
+ * Formats the values of a subtree can be exported as
+ * - env: KEY=VALUE lines for .env files (docker compose, dotenv)
+ * - shell: export KEY=VALUE lines for POSIX shells
+ * - json, yaml: nested objects mirroring the tree
+ */
+export type ExportFormat = 'env' | 'shell' | 'json' | 'yaml';
+
+/**
+ * How flat (env and shell) keys are built from a leaf's path below the exported node
+ */
+export interface KeyNaming {
+    /** Placed between the labels of the path */
+    separator: string;
+    /** Whether keys are uppercased */
+    uppercase: boolean;
+}
+
+/**
+ * Read the key naming from the debugConfigs.exportKeySeparator and debugConfigs.exportUppercaseKeys settings
+ */
+export function getConfiguredKeyNaming(): KeyNaming {
+    const configuration = vscode.workspace.getConfiguration('debugConfigs');
+    return {
+        separator: configuration.get<string>('exportKeySeparator', '_'),
+        uppercase: configuration.get<boolean>('exportUppercaseKeys', true)
+    };
+}
+
+/**
+ * A leaf to export
+ */
+export interface ExportedLeaf {
+    /** Labels from the exported node down to the leaf */
+    labels: string[];
+    /** The resolved value, or undefined for a secret whose value is omitted */
+    value?: LeafValue;
+}
+
+/**
+ * Format exported leaves as the contents of a file
+ * @param leaves The leaves in tree order
+ * @param format The file format
+ * @param naming How flat keys are built
+ * @param source The path of the exported node, mentioned in a header comment where the format has comments
+ * @returns The file contents
+ */
+export function formatExport(leaves: ExportedLeaf[], format: ExportFormat, naming: KeyNaming, source: string): string {
+    if (format === 'json' || format === 'yaml') {
+        const data = toNestedObject(leaves);
+        return format === 'json'
+            ? JSON.stringify(data, null, 2) + '\n'
+            : `# Exported from debugconfigs "${source}"\n` + YAML.stringify(data);
+    }
+
+    const lines = [`# Exported from debugconfigs "${source}"`];
+    for (const leaf of leaves) {
+        const key = toFlatKey(leaf.labels, naming);
+        if (leaf.value === undefined) {
+            lines.push(`# ${key}: secret value omitted`);
+        } else if (format === 'env') {
+            lines.push(`${key}=${quoteEnvValue(toText(leaf.value))}`);
+        } else {
+            lines.push(`export ${key}=${quoteShellValue(toText(leaf.value))}`);
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Build a flat key (e.g. DB_HOST) from a leaf's labels
+ * Characters that are not valid in environment variable names are replaced by underscores
+ * @param labels Labels from the exported node down to the leaf
+ * @param naming How the labels are joined and cased
+ */
+export function toFlatKey(labels: string[], naming: KeyNaming): string {
+    const joined = labels.join(naming.separator);
+    const key = (naming.uppercase ? joined.toUpperCase() : joined).replace(/[^A-Za-z0-9_]/g, '_');
+    return /^[0-9]/.test(key) ? `_${key}` : key;
+}
+
+/**
+ * Build distinct flat keys for several leaves, for environments where a repeated key would hide a value
+ * Keys that collide once built get a numeric suffix
+ * @param labelLists The labels of each leaf, from the exported node down to the leaf
+ * @param naming How the labels are joined and cased
+ * @returns The keys, in the order of the leaves
+ */
+export function toDistinctFlatKeys(labelLists: string[][], naming: KeyNaming): string[] {
+    const usedKeys = new Set<string>();
+
+    return labelLists.map(labels => {
+        const baseKey = toFlatKey(labels, naming);
+        let key = baseKey;
+        for (let suffix = 2; usedKeys.has(key); suffix++) {
+            key = `${baseKey}_${suffix}`;
+        }
+        usedKeys.add(key);
+        return key;
+    });
+}
+
+/**
+ * Quote a value for a .env file
+ * Simple values are left bare, values without single quotes or line breaks are single-quoted (taken literally),
+ * anything else is double-quoted with backslash escapes; $ is escaped too, since docker compose and dotenv-expand
+ * interpolate variables in double-quoted values
+ */
+function quoteEnvValue(text: string): string {
+    if (/^[A-Za-z0-9_./:@%+,=-]*$/.test(text)) {
+        return text;
+    }
+    if (!/['\r\n]/.test(text)) {
+        return `'${text}'`;
+    }
+
+    const escaped = text
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\$/g, '\\$')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r');
+    return `"${escaped}"`;
+}
+
+/**
+ * Quote a value for a POSIX shell
+ * Anything but simple values is single-quoted, with embedded single quotes written as '\''
+ */
+function quoteShellValue(text: string): string {
+    if (text !== '' && /^[A-Za-z0-9_./:@%+,=-]*$/.test(text)) {
+        return text;
+    }
+    return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Convert a resolved value to the text written to flat files
+ */
+function toText(value: LeafValue): string {
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Nest leaves by their labels, leaving out omitted secrets
+ * @param leaves The leaves in tree order
+ * @returns An object mirroring the tree
+ */
+export function toNestedObject(leaves: ExportedLeaf[]): Record<string, unknown> {
+    const result: Record<string, any> = {};
+
+    for (const leaf of leaves) {
+        if (leaf.value === undefined) {
+            continue;
+        }
+
+        let current = result;
+        for (const label of leaf.labels.slice(0, -1)) {
+            current[label] = current[label] ?? {};
+            current = current[label];
+        }
+        current[leaf.labels[leaf.labels.length - 1]] = leaf.value;
+    }
+
+    return result;
+}
@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import * as YAML from 'yaml';
+import { LeafValueType } from './DebugConfigTree';
+
+/**
+ * Formats of config files whose values can be imported into the tree
+ */
+export type ConfigFileFormat = 'env' | 'json' | 'yaml';
+
+/**
+ * Guess the format of a config file from its name
+ * @param fileName The file name (e.g. ".env.local", "appsettings.json", "config.yml")
+ * @returns The format, or undefined if the name does not tell
+ */
+export function detectConfigFileFormat(fileName: string): ConfigFileFormat | undefined {
+    const name = fileName.toLowerCase();
+    if (name === '.env' || name.startsWith('.env.') || name.endsWith('.env')) {
+        return 'env';
+    }
+    if (name.endsWith('.json') || name.endsWith('.jsonc')) {
+        return 'json';
+    }
+    if (name.endsWith('.yaml') || name.endsWith('.yml')) {
+        return 'yaml';
+    }
+    return undefined;
+}
+
+/**
+ * Convert a config file into serialized tree items (the format used by tree state files)
+ * .env keys become string leaves; nested JSON/YAML objects become parent nodes and their values typed leaves
+ * @param text The file contents
+ * @param format The file format
+ * @returns The serialized tree items
+ */
+export function parseConfigFile(text: string, format: ConfigFileFormat): any[] {
+    if (format === 'env') {
+        return toTreeItems(Object.fromEntries(parseEnvFile(text)));
+    }
+
+    let data: unknown;
+    if (format === 'json') {
+        const errors: jsonc.ParseError[] = [];
+        data = jsonc.parse(text, errors, { allowTrailingComma: true });
+        if (errors.length > 0) {
+            throw new Error(`Invalid JSON: ${jsonc.printParseErrorCode(errors[0].error)} at offset ${errors[0].offset}`);
+        }
+    } else {
+        data = YAML.parse(text);
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('Expected an object at the top level of the file');
+    }
+
+    return toTreeItems(data as Record<string, unknown>);
+}
+
+/**
+ * Parse the KEY=VALUE lines of a .env file
+ * Supports comments, "export" prefixes, single quotes (literal), double quotes (with \n, \t, \", \$ and \\ escapes,
+ * possibly spanning lines) and inline comments after unquoted values
+ * @param text The file contents
+ * @returns The keys and values in file order; a repeated key keeps its last value
+ */
+export function parseEnvFile(text: string): Array<[string, string]> {
+    const entries = new Map<string, string>();
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line === '' || line.startsWith('#')) {
+            continue;
+        }
+
+        const match = /^(?:export\s+)?([^=\s]+)\s*=\s*(.*)$/.exec(line);
+        if (!match) {
+            throw new Error(`Line ${i + 1}: expected KEY=VALUE`);
+        }
+
+        const key = match[1];
+        let rest = match[2];
+        const quote = rest[0];
+
+        if (quote !== '"' && quote !== '\'') {
+            // Unquoted values end at an inline comment
+            entries.delete(key);
+            entries.set(key, rest.replace(/\s+#.*$/, '').trim());
+            continue;
+        }
+
+        // Quoted values may continue on the following lines
+        const startLine = i;
+        let closing = findClosingQuote(rest, quote);
+        while (closing === -1 && i + 1 < lines.length) {
+            rest += '\n' + lines[++i];
+            closing = findClosingQuote(rest, quote);
+        }
+        if (closing === -1) {
+            throw new Error(`Line ${startLine + 1}: missing closing ${quote}`);
+        }
+
+        const content = rest.substring(1, closing);
+        entries.delete(key);
+        entries.set(key, quote === '"' ? unescapeDoubleQuoted(content) : content);
+    }
+
+    return [...entries];
+}
+
+/**
+ * Turn a config key into a valid tree label
+ * Dots are reserved for paths, so they are replaced by underscores
+ * @param key The config key
+ */
+export function sanitizeLabel(key: string): string {
+    const label = key.trim().replace(/\./g, '_');
+    return label === '' ? '_' : label;
+}
+
+/**
+ * Convert an object into serialized tree items
+ * Keys that collide once sanitized (labels are matched case-insensitively) get a numeric suffix
+ * @param data The object; nested objects become parent nodes
+ * @returns The serialized tree items
+ */
+export function toTreeItems(data: Record<string, unknown>): any[] {
+    const usedLabels = new Set<string>();
+
+    return Object.entries(data).map(([key, value]) => {
+        let label = sanitizeLabel(key);
+        for (let suffix = 2; usedLabels.has(label.toLowerCase()); suffix++) {
+            label = `${sanitizeLabel(key)}_${suffix}`;
+        }
+        usedLabels.add(label.toLowerCase());
+
+        if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+            const children = toTreeItems(value as Record<string, unknown>);
+            const collapsibleState = children.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None;
+            return { label, collapsibleState, children };
+        }
+        return { label, ...toLeafValue(value) };
+    });
+}
+
+/**
+ * Convert a scalar or array into a serialized leaf value with its type
+ * Arrays and nulls are kept as JSON so they can still be substituted natively
+ * @param value The value
+ * @returns The value as text, and its type
+ */
+export function toLeafValue(value: unknown): { value: string, valueType: LeafValueType } {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return { value: String(value), valueType: 'number' };
+    }
+    if (typeof value === 'boolean') {
+        return { value: String(value), valueType: 'boolean' };
+    }
+    if (typeof value === 'string') {
+        return { value, valueType: 'string' };
+    }
+    if (value === null || Array.isArray(value)) {
+        return { value: JSON.stringify(value), valueType: 'json' };
+    }
+    return { value: String(value), valueType: 'string' };
+}
+
+/**
+ * Find the quote closing a quoted value that starts at index 0
+ * @returns The index of the closing quote, or -1 if there is none
+ */
+function findClosingQuote(text: string, quote: string): number {
+    for (let i = 1; i < text.length; i++) {
+        if (quote === '"' && text[i] === '\\') {
+            i++;
+        } else if (text[i] === quote) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Resolve the escapes of a double-quoted .env value
+ */
+function unescapeDoubleQuoted(text: string): string {
+    const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '$': '$', '\\': '\\' };
+    return text.replace(/\\(.)/g, (escape, character: string) => escapes[character] ?? escape);
+}
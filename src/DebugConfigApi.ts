@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import { ConfigImportResult, DebugConfigTreeDataProvider, DebugConfigTreeItem, LeafValue, ResolveCancelledError, getItemLabel } from './DebugConfigTree';
+import { ExportedLeaf, toNestedObject } from './ConfigFileExport';
+import { toLeafValue, toTreeItems } from './ConfigFileImport';
+
+/**
+ * Fired when nodes of the tree change
+ */
+export interface DebugConfigsChangeEvent {
+    /**
+     * Dotted, lowercased paths of the nodes that were added, removed or changed, including inherited ones.
+     * Secret leaves are reported when they are added, removed or converted, not when only their secret value changes
+     */
+    readonly paths: string[];
+}
+
+/**
+ * The API returned by the extension's activate function, for other extensions to read, write and watch the tree
+ * Get it with vscode.extensions.getExtension('mcowger.debugconfigs')?.activate()
+ */
+export interface DebugConfigsApi {
+    /** Version of the API; incremented on incompatible changes */
+    readonly version: 1;
+
+    /** Fired with the changed paths whenever the tree changes */
+    readonly onDidChange: vscode.Event<DebugConfigsChangeEvent>;
+
+    /**
+     * Resolve the leaf at a dotted path the way extension.debugconfigs.replace does, as a native value
+     * @param path The dotted path; may be relative to the active profile (e.g. "@profile.port")
+     * @returns The value, or undefined if the user cancelled a prompt
+     */
+    getValue(path: string): Promise<LeafValue | undefined>;
+
+    /**
+     * Set the leaf at a dotted path, creating it and its missing parents
+     * Strings, numbers and booleans keep their type; arrays, objects and null are stored as JSON values
+     * @param path The dotted path, with labels in the case they should be created with; may be relative to the active profile
+     * @param value The value
+     */
+    setValue(path: string, value: unknown): void;
+
+    /**
+     * Remove the node at a dotted path, with everything below it
+     * @param path The dotted path; may be relative to the active profile
+     * @returns true if a node was removed, false if there was none
+     */
+    remove(path: string): boolean;
+
+    /**
+     * Merge a plain object into the tree; nested objects become parent nodes
+     * Existing values are updated, except choice and computed values, which are skipped
+     * @param values The object to import
+     * @param parentPath The node to import into, created if missing; the root of the tree if omitted. May be relative to the active profile
+     * @returns The paths that were added, updated and skipped
+     */
+    importValues(values: Record<string, unknown>, parentPath?: string): Promise<ConfigImportResult>;
+
+    /**
+     * Get a subtree as a plain object of resolved values, without prompting the user
+     * Choices use their last choice or default and computed values their last output; commands are never run,
+     * so computed values that have not run yet are left out
+     * @param path The dotted path of the node, which may be relative to the active profile; the whole tree if omitted
+     * @param options includeSecrets to include secret values, which are left out by default
+     * @returns The values nested like the tree; a leaf's path gives an object with just that leaf
+     */
+    getSubtree(path?: string, options?: { includeSecrets?: boolean }): Promise<Record<string, unknown>>;
+}
+
+/**
+ * Implementation of the public API on top of the tree data provider
+ * Changed paths are found by comparing a snapshot of the tree before and after each change event
+ */
+export class DebugConfigApi implements DebugConfigsApi, vscode.Disposable {
+    readonly version = 1;
+    private _onDidChange: vscode.EventEmitter<DebugConfigsChangeEvent> = new vscode.EventEmitter<DebugConfigsChangeEvent>();
+    readonly onDidChange: vscode.Event<DebugConfigsChangeEvent> = this._onDidChange.event;
+    private readonly subscription: vscode.Disposable;
+    private snapshot: Map<string, string>;
+
+    constructor(private treeDataProvider: DebugConfigTreeDataProvider) {
+        this.snapshot = this.takeSnapshot();
+        this.subscription = treeDataProvider.onDidChangeTreeData(() => this.handleTreeChange());
+    }
+
+    async getValue(path: string): Promise<LeafValue | undefined> {
+        try {
+            return await this.treeDataProvider.resolveNativePath(path);
+        } catch (error) {
+            if (error instanceof ResolveCancelledError) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    setValue(path: string, value: unknown): void {
+        if (typeof path !== 'string') {
+            throw new Error('Path must be a string');
+        }
+        const leafValue = toLeafValue(value);
+        this.treeDataProvider.setValueAtPath(this.treeDataProvider.expandProfilePath(path), leafValue.value, leafValue.valueType);
+    }
+
+    remove(path: string): boolean {
+        const item = this.treeDataProvider.findItemByPath(this.treeDataProvider.expandProfilePath(path));
+        if (!item) {
+            return false;
+        }
+        if (item.inheritedFrom) {
+            throw new Error(`Cannot remove "${path}" because it is inherited from "${item.inheritedFromPath}"`);
+        }
+
+        this.treeDataProvider.removeItem(item);
+        return true;
+    }
+
+    async importValues(values: Record<string, unknown>, parentPath?: string): Promise<ConfigImportResult> {
+        if (!values || typeof values !== 'object' || Array.isArray(values)) {
+            throw new Error('Values must be a plain object');
+        }
+
+        const parent = parentPath ? this.treeDataProvider.ensureParentAtPath(this.treeDataProvider.expandProfilePath(parentPath)) : undefined;
+        return this.treeDataProvider.importConfigItems(toTreeItems(values), parent);
+    }
+
+    async getSubtree(path?: string, options: { includeSecrets?: boolean } = {}): Promise<Record<string, unknown>> {
+        let items: DebugConfigTreeItem[];
+        if (path) {
+            const item = this.treeDataProvider.findItemByPath(this.treeDataProvider.expandProfilePath(path));
+            if (!item) {
+                throw new Error(`Path "${path}" does not exist in the Debug Configurations tree`);
+            }
+            items = [item];
+        } else {
+            items = this.treeDataProvider.getRootItems();
+        }
+
+        const leaves: ExportedLeaf[] = [];
+        for (const item of items) {
+            // Below the root, labels start at the root items so the object mirrors the whole tree
+            const prefix = !path && item.value === undefined ? [getItemLabel(item)] : [];
+            for (const leaf of this.treeDataProvider.getLeavesBelow(item)) {
+                if ((leaf.item.kind === 'secret' && !options.includeSecrets) || (leaf.item.kind === 'computed' && !leaf.item.computedOutput)) {
+                    continue;
+                }
+                leaves.push({ labels: [...prefix, ...leaf.labels], value: await this.treeDataProvider.resolveNativePath(leaf.path, true) });
+            }
+        }
+
+        return toNestedObject(leaves);
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChange.dispose();
+    }
+
+    /**
+     * Report the paths that changed since the last snapshot
+     */
+    private handleTreeChange(): void {
+        const previous = this.snapshot;
+        this.snapshot = this.takeSnapshot();
+
+        const paths = new Set<string>();
+        for (const [path, signature] of this.snapshot) {
+            if (previous.get(path) !== signature) {
+                paths.add(path);
+            }
+        }
+        for (const path of previous.keys()) {
+            if (!this.snapshot.has(path)) {
+                paths.add(path);
+            }
+        }
+
+        if (paths.size > 0) {
+            this._onDidChange.fire({ paths: [...paths] });
+        }
+    }
+
+    /**
+     * Record every node's path with what defines its value
+     * Display state such as a choice's last pick or a computed value's last output is left out
+     */
+    private takeSnapshot(): Map<string, string> {
+        const snapshot = new Map<string, string>();
+        for (const { path, item } of this.treeDataProvider.getAllItemsWithPaths()) {
+            snapshot.set(path, item.value === undefined
+                ? 'parent'
+                : JSON.stringify([item.kind, item.valueType, item.value, item.options, item.secretId, item.computed]));
+        }
+        return snapshot;
+    }
+}
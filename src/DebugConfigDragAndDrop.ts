@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import { DebugConfigTreeDataProvider, DebugConfigTreeItem, PathChange } from './DebugConfigTree';
+import { buildRenameEdit } from './LaunchConfigFiles';
+import { TerminalEnvironment } from './TerminalEnvironment';
+
+/**
+ * Drag and drop controller for the debug configurations tree view
+ * Dropping on a parent node moves the dragged items into it, dropping on a leaf node inserts them
+ * before that leaf, and dropping on empty space moves them to the root
+ * VS Code does not report where on a node the drop happened, so a parent with children that is a sibling of
+ * the dragged items is treated as a place to reorder them: they are inserted before it
+ * Moves change paths like renames do, so inputs in launch.json and tasks.json and the terminal environment follow them
+ */
+export class DebugConfigDragAndDropController implements vscode.TreeDragAndDropController<DebugConfigTreeItem> {
+    private static readonly MIME_TYPE = 'application/vnd.code.tree.debugconfigs';
+    readonly dropMimeTypes = [DebugConfigDragAndDropController.MIME_TYPE];
+    readonly dragMimeTypes = [DebugConfigDragAndDropController.MIME_TYPE];
+
+    constructor(private treeDataProvider: DebugConfigTreeDataProvider, private terminalEnvironment: TerminalEnvironment) { }
+
+    /**
+     * Store the dragged items so they can be moved on drop
+     */
+    handleDrag(source: readonly DebugConfigTreeItem[], dataTransfer: vscode.DataTransfer): void {
+        dataTransfer.set(DebugConfigDragAndDropController.MIME_TYPE, new vscode.DataTransferItem(source));
+    }
+
+    /**
+     * Move the dragged items relative to the drop target
+     */
+    async handleDrop(target: DebugConfigTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        const transferItem = dataTransfer.get(DebugConfigDragAndDropController.MIME_TYPE);
+        if (!transferItem) {
+            return;
+        }
+
+        const items: DebugConfigTreeItem[] = transferItem.value;
+        if (!Array.isArray(items) || items.length === 0) {
+            return;
+        }
+
+        // Dropped on empty space: promote to root
+        let newParent: DebugConfigTreeItem | undefined;
+        let before: DebugConfigTreeItem | undefined;
+        if (target && (target.value !== undefined || this.isSiblingParent(target, items))) {
+            // Dropped on a leaf or on a sibling parent: reorder among the target's siblings
+            newParent = this.treeDataProvider.getParent(target);
+            before = target;
+        } else if (target) {
+            // Dropped on a parent: move into it
+            newParent = target;
+        }
+
+        let changes: PathChange[];
+        try {
+            changes = this.treeDataProvider.validateMove(items, newParent, before);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to move items: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        // Update inputs in launch.json and tasks.json that point through the moved nodes before moving them,
+        // so cancelling the preview leaves the tree and the inputs consistent
+        let inputCount = 0;
+        if (changes.length > 0) {
+            try {
+                const renameEdit = await buildRenameEdit(changes, itemPath => this.treeDataProvider.generateIdFromPath(itemPath), this.treeDataProvider.getActiveProfilePath());
+                inputCount = renameEdit.inputCount;
+                if (inputCount > 0 && !await vscode.workspace.applyEdit(renameEdit.edit, { isRefactoring: true })) {
+                    vscode.window.showInformationMessage('Move cancelled');
+                    return;
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to update configuration files: ${error}`);
+                return;
+            }
+        }
+
+        try {
+            this.treeDataProvider.moveItems(items, newParent, before);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to move items: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        for (const { oldPath, newPath } of changes) {
+            await this.terminalEnvironment.renamePath(oldPath, newPath);
+        }
+        if (inputCount > 0) {
+            vscode.window.showInformationMessage(`Updated ${inputCount} input(s) referencing the moved nodes. Remember to save.`);
+        }
+    }
+
+    /**
+     * Whether a parent with children shares its parent (or the root) with every dragged item
+     * Empty parents are never reorder targets, so items can still be dropped into them
+     */
+    private isSiblingParent(target: DebugConfigTreeItem, items: DebugConfigTreeItem[]): boolean {
+        if ((target.children ?? []).length === 0) {
+            return false;
+        }
+
+        const parent = this.treeDataProvider.getParent(target);
+        return items.every(item => this.treeDataProvider.getParent(item) === parent);
+    }
+}
@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { DebugConfigTreeDataProvider, DebugConfigTreeItem, PROFILE_PATH_PREFIX } from './DebugConfigTree';
+import { findReplaceInputAt, findReplaceInputs, isConfigDocument, stringContentRange } from './LaunchConfigFiles';
+
+/**
+ * Language features for debugconfigs paths inside launch.json and tasks.json
+ * Provides completion, hover, diagnostics and links that reveal the node in the tree view
+ * for the "path" argument of inputs using extension.debugconfigs.replace
+ */
+export class DebugConfigLanguageSupport implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.DocumentLinkProvider {
+    private static readonly DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+        { scheme: 'file', pattern: '**/.vscode/launch.json' },
+        { scheme: 'file', pattern: '**/.vscode/tasks.json' }
+    ];
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('debugConfigs');
+
+    constructor(private treeDataProvider: DebugConfigTreeDataProvider) { }
+
+    /**
+     * Register all language features and keep diagnostics up to date
+     * @returns A disposable that unregisters everything
+     */
+    register(): vscode.Disposable {
+        const selector = DebugConfigLanguageSupport.DOCUMENT_SELECTOR;
+
+        // Diagnostics for documents that are already open
+        vscode.workspace.textDocuments.forEach(document => this.updateDiagnostics(document));
+
+        return vscode.Disposable.from(
+            this.diagnostics,
+            vscode.languages.registerCompletionItemProvider(selector, this, '"', '.'),
+            vscode.languages.registerHoverProvider(selector, this),
+            vscode.languages.registerDocumentLinkProvider(selector, this),
+            vscode.workspace.onDidOpenTextDocument(document => this.updateDiagnostics(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.updateDiagnostics(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri)),
+            // Tree edits can fix or break paths in any open document
+            this.treeDataProvider.onDidChangeTreeData(() => vscode.workspace.textDocuments.forEach(document => this.updateDiagnostics(document)))
+        );
+    }
+
+    /**
+     * Suggest tree paths inside the "path" argument of replace inputs
+     */
+    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+        const input = findReplaceInputAt(document, position);
+        if (!input) {
+            return undefined;
+        }
+
+        const range = stringContentRange(document, input.pathNode);
+        const completions = this.treeDataProvider.getAllItemsWithPaths().map(({ path, item }) =>
+            this.createCompletionItem(path, item, range)
+        );
+
+        // Offer profile-relative paths for the active profile's leaves
+        const activeProfile = this.treeDataProvider.getActiveProfilePath();
+        if (activeProfile) {
+            for (const { path, item } of this.treeDataProvider.getAllItemsWithPaths()) {
+                if (path.startsWith(`${activeProfile}.`)) {
+                    completions.push(this.createCompletionItem(PROFILE_PATH_PREFIX + path.substring(activeProfile.length), item, range));
+                }
+            }
+        }
+
+        return completions;
+    }
+
+    /**
+     * Show the current value of the path under the cursor
+     */
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const input = findReplaceInputAt(document, position);
+        if (!input) {
+            return undefined;
+        }
+
+        const contents = new vscode.MarkdownString();
+        contents.appendMarkdown(`**${input.path}**`);
+
+        const problem = this.validatePath(input.path);
+        if (problem) {
+            contents.appendMarkdown(`\n\n${problem}`);
+        } else {
+            const item = this.treeDataProvider.findItemByPath(this.treeDataProvider.expandProfilePath(input.path)) as DebugConfigTreeItem;
+            contents.appendMarkdown(` (${item.kind === 'value' ? item.valueType : item.kind})`);
+            try {
+                contents.appendCodeblock(this.treeDataProvider.previewPath(input.path));
+            } catch (error) {
+                contents.appendMarkdown(`\n\n${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        return new vscode.Hover(contents, stringContentRange(document, input.pathNode));
+    }
+
+    /**
+     * Link each valid path to the node in the tree view
+     * The node is only revealed when the link is followed, so hovering over a path leaves the tree as it is
+     */
+    provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+        const links: vscode.DocumentLink[] = [];
+
+        for (const input of findReplaceInputs(jsonc.parseTree(document.getText()))) {
+            if (this.validatePath(input.path)) {
+                continue;
+            }
+
+            const args = encodeURIComponent(JSON.stringify([input.path]));
+            const link = new vscode.DocumentLink(
+                stringContentRange(document, input.pathNode),
+                vscode.Uri.parse(`command:debugConfigs.revealItem?${args}`)
+            );
+            link.tooltip = 'Reveal in Debug Configurations';
+            links.push(link);
+        }
+
+        return links;
+    }
+
+    /**
+     * Recompute diagnostics for a configuration document
+     */
+    private updateDiagnostics(document: vscode.TextDocument): void {
+        if (!isConfigDocument(document)) {
+            return;
+        }
+
+        const diagnostics: vscode.Diagnostic[] = [];
+        for (const input of findReplaceInputs(jsonc.parseTree(document.getText()))) {
+            const problem = this.validatePath(input.path);
+            if (problem) {
+                const diagnostic = new vscode.Diagnostic(stringContentRange(document, input.pathNode), problem, vscode.DiagnosticSeverity.Error);
+                diagnostic.source = 'debugconfigs';
+                diagnostics.push(diagnostic);
+            }
+        }
+
+        this.diagnostics.set(document.uri, diagnostics);
+    }
+
+    /**
+     * Check that a path points at an existing leaf node
+     * @returns A description of the problem, or undefined if the path is valid
+     */
+    private validatePath(itemPath: string): string | undefined {
+        let item: DebugConfigTreeItem | undefined;
+        try {
+            item = this.treeDataProvider.findItemByPath(this.treeDataProvider.expandProfilePath(itemPath));
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
+
+        if (!item) {
+            return `Path "${itemPath}" does not exist in the Debug Configurations tree`;
+        }
+        if (item.value === undefined) {
+            return `Path "${itemPath}" points at a parent node; only leaf nodes with values can be referenced`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Create a completion item for a tree path
+     */
+    private createCompletionItem(itemPath: string, item: DebugConfigTreeItem, range: vscode.Range): vscode.CompletionItem {
+        const isLeaf = item.value !== undefined;
+        const completion = new vscode.CompletionItem(itemPath, isLeaf ? vscode.CompletionItemKind.Value : vscode.CompletionItemKind.Folder);
+        completion.range = range;
+
+        if (isLeaf) {
+            try {
+                completion.detail = this.treeDataProvider.previewPath(itemPath);
+            } catch (error) {
+                completion.detail = error instanceof Error ? error.message : String(error);
+            }
+        } else {
+            // Parents cannot be referenced, so completing one moves on to its children
+            completion.insertText = `${itemPath}.`;
+            completion.command = { command: 'editor.action.triggerSuggest', title: 'Suggest children' };
+            completion.sortText = `~${itemPath}`;
+        }
+
+        return completion;
+    }
+}
@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+import { DebugConfigTreeDataProvider, DebugConfigTreeItem, ResolveCancelledError } from './DebugConfigTree';
+import { getConfiguredKeyNaming, toDistinctFlatKeys } from './ConfigFileExport';
+
+/**
+ * The task type contributed by the extension
+ */
+export const TASK_TYPE = 'debugconfigs';
+
+/**
+ * The definition of a debugconfigs task in tasks.json
+ */
+export interface DebugConfigTaskDefinition extends vscode.TaskDefinition {
+    /** Dotted path of the node whose leaves become environment variables; may be relative to the active profile */
+    path: string;
+    /** The shell command to run */
+    command: string;
+}
+
+/**
+ * Task provider for debugconfigs tasks, which run a shell command with the values of a subtree as environment variables
+ * Values are resolved when the task runs, using the same lookup as extension.debugconfigs.replace,
+ * so one task definition receives a whole set of values without an input per variable
+ */
+export class DebugConfigTaskProvider implements vscode.TaskProvider {
+    constructor(private treeDataProvider: DebugConfigTreeDataProvider) { }
+
+    /**
+     * debugconfigs tasks are always defined in tasks.json, so none are detected
+     */
+    provideTasks(): vscode.Task[] {
+        return [];
+    }
+
+    /**
+     * Resolve a debugconfigs task from tasks.json into a task that runs its command in a terminal of its own
+     * VS Code also resolves tasks just to list them, so nothing is looked up here: values are resolved when the task runs
+     */
+    resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as DebugConfigTaskDefinition;
+        if (typeof definition.path !== 'string' || typeof definition.command !== 'string') {
+            vscode.window.showErrorMessage(`Cannot run "${task.name}": debugconfigs tasks need a "path" and a "command"`);
+            return undefined;
+        }
+
+        const scope = task.scope ?? vscode.TaskScope.Workspace;
+        const cwd = typeof scope === 'object' ? scope.uri.fsPath : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        return new vscode.Task(
+            definition,
+            scope,
+            task.name,
+            TASK_TYPE,
+            new vscode.CustomExecution(async () => new DebugConfigTaskTerminal(this.treeDataProvider, task.name, definition, cwd)),
+            task.problemMatchers
+        );
+    }
+}
+
+/**
+ * The terminal of a running debugconfigs task
+ * Resolves the subtree's values when the task starts, then runs the command in a shell with them in its environment
+ * If any value cannot be resolved the command is not run and every failure is reported;
+ * if the user cancels a prompt (e.g. a choice) the task ends quietly
+ */
+class DebugConfigTaskTerminal implements vscode.Pseudoterminal {
+    private _onDidWrite: vscode.EventEmitter<string> = new vscode.EventEmitter<string>();
+    readonly onDidWrite: vscode.Event<string> = this._onDidWrite.event;
+    private _onDidClose: vscode.EventEmitter<number> = new vscode.EventEmitter<number>();
+    readonly onDidClose: vscode.Event<number> = this._onDidClose.event;
+    private child?: ChildProcess;
+    private closed = false;
+
+    constructor(
+        private treeDataProvider: DebugConfigTreeDataProvider,
+        private taskName: string,
+        private definition: DebugConfigTaskDefinition,
+        private cwd: string | undefined
+    ) { }
+
+    async open(): Promise<void> {
+        const errors: string[] = [];
+        let env: Record<string, string>;
+        try {
+            env = await this.resolveEnvironment(this.definition.path, errors);
+        } catch (error) {
+            if (error instanceof ResolveCancelledError) {
+                this.write('Cancelled\n');
+                this.finish(1);
+                return;
+            }
+            this.write(`${error instanceof Error ? error.message : error}\n`);
+            this.finish(1);
+            return;
+        }
+
+        if (errors.length > 0) {
+            vscode.window.showErrorMessage(
+                `Cannot run "${this.taskName}": ${errors.length} value(s) could not be resolved`,
+                { modal: true, detail: errors.join('\n') }
+            );
+            this.write(`${errors.join('\n')}\n`);
+            this.finish(1);
+            return;
+        }
+        if (this.closed) {
+            return;
+        }
+
+        this.write(`> ${this.definition.command}\n\n`);
+        this.child = spawn(this.definition.command, { shell: true, cwd: this.cwd, env: { ...process.env, ...env } });
+        this.child.stdout?.on('data', (data: Buffer) => this.write(data.toString()));
+        this.child.stderr?.on('data', (data: Buffer) => this.write(data.toString()));
+        this.child.on('error', error => {
+            this.write(`${error.message}\n`);
+            this.finish(1);
+        });
+        this.child.on('close', code => this.finish(code ?? 1));
+    }
+
+    /**
+     * Pass typed input to the command; Ctrl+C stops it
+     */
+    handleInput(data: string): void {
+        if (data === '\x03') {
+            this.child?.kill();
+            return;
+        }
+        this.write(data === '\r' ? '\n' : data);
+        this.child?.stdin?.write(data === '\r' ? '\n' : data);
+    }
+
+    close(): void {
+        this.closed = true;
+        this.child?.kill();
+    }
+
+    /**
+     * Write output to the terminal, which expects \r\n line endings
+     */
+    private write(text: string): void {
+        this._onDidWrite.fire(text.replace(/\r?\n/g, '\r\n'));
+    }
+
+    /**
+     * End the task with an exit code, once
+     */
+    private finish(exitCode: number): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this._onDidClose.fire(exitCode);
+    }
+
+    /**
+     * Resolve the leaves below a node into environment variables, keyed like exported .env files
+     * @param itemPath The dotted path of the node, possibly relative to the active profile
+     * @param errors Collects a message for every value that could not be resolved
+     * @returns The environment variables
+     */
+    private async resolveEnvironment(itemPath: string, errors: string[]): Promise<Record<string, string>> {
+        let item: DebugConfigTreeItem | undefined;
+        try {
+            item = this.treeDataProvider.findItemByPath(this.treeDataProvider.expandProfilePath(itemPath));
+        } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error));
+            return {};
+        }
+        if (!item) {
+            errors.push(`Path "${itemPath}" does not exist in the Debug Configurations tree`);
+            return {};
+        }
+
+        const leaves = this.treeDataProvider.getLeavesBelow(item);
+        const keys = toDistinctFlatKeys(leaves.map(leaf => leaf.labels), getConfiguredKeyNaming());
+        const env: Record<string, string> = {};
+        for (let i = 0; i < leaves.length; i++) {
+            try {
+                env[keys[i]] = await this.treeDataProvider.resolvePath(leaves[i].path);
+            } catch (error) {
+                // Cancelling a prompt cancels the whole task
+                if (error instanceof ResolveCancelledError) {
+                    throw error;
+                }
+                errors.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        return env;
+    }
+}
@@ -2,6 +2,206 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+import { exec } from 'child_process';
+import { TreeStateFileStorage, formatTreeStateJson, parseTreeStateJson } from './TreeStateFile';
+import { LayeredTreeState, TreeHistory, collectSecretIds, sameTreeState } from './TreeHistory';
+import { TreeSnapshot, TreeSnapshotStore, restoreSubtree } from './TreeSnapshots';
+import { ExportFormat, ExportedLeaf, KeyNaming, formatExport } from './ConfigFileExport';
+import { ImportMode, TreeStateChange, applyTreeStateChanges, diffTreeStates, selectChangesForMode } from './TreeStateDiff';
+
+/**
+ * Pattern matching references to other leaves inside a value (e.g. "${ref:environment.common.host}")
+ * A reference escaped as "$${ref:...}" is not matched
+ */
+export const REFERENCE_PATTERN = /(?<!\$)\$\{ref:([^}]+)\}/g;
+
+/**
+ * Pattern matching everything that is expanded in a value at resolve time:
+ * "$${" escapes, "${ref:path}" references and the supported VS Code and environment variables
+ */
+const EXPANSION_PATTERN = /\$\$\{|\$\{(ref|env|config|workspaceFolder|workspaceFolderBasename|userHome)(?::([^}]*))?\}/g;
+
+/**
+ * Check whether a value contains anything that is expanded at resolve time (references, variables or escapes)
+ */
+export function containsExpansions(text: string): boolean {
+    return text.search(EXPANSION_PATTERN) !== -1;
+}
+
+/**
+ * Expand a single VS Code or environment variable
+ * @param name The variable name (env, config, workspaceFolder, workspaceFolderBasename or userHome)
+ * @param argument The part after the colon, if any (e.g. the environment variable name)
+ * @returns The expanded text
+ */
+function expandVariable(name: string, argument: string | undefined): string {
+    switch (name) {
+        case 'env':
+            if (!argument) {
+                throw new Error('Variable ${env} requires an environment variable name, e.g. ${env:HOME}');
+            }
+            return process.env[argument] ?? '';
+        case 'config': {
+            if (!argument) {
+                throw new Error('Variable ${config} requires a setting name, e.g. ${config:editor.fontSize}');
+            }
+            const configValue = vscode.workspace.getConfiguration().get(argument);
+            if (configValue === undefined || configValue === null) {
+                return '';
+            }
+            return typeof configValue === 'string' ? configValue : JSON.stringify(configValue);
+        }
+        case 'workspaceFolder':
+        case 'workspaceFolderBasename': {
+            const folders = vscode.workspace.workspaceFolders ?? [];
+            // "${workspaceFolder:name}" selects a folder of a multi-root workspace by name
+            const folder = argument ? folders.find(candidate => candidate.name === argument) : folders[0];
+            if (!folder) {
+                throw new Error(argument ? `Workspace folder "${argument}" is not open` : `Variable \${${name}} requires an open workspace folder`);
+            }
+            return name === 'workspaceFolder' ? folder.uri.fsPath : folder.name;
+        }
+        case 'userHome':
+            return os.homedir();
+        default:
+            throw new Error(`Unsupported variable "${name}"`);
+    }
+}
+
+/**
+ * Types a leaf value can have
+ * Values are stored as text and converted to their native form when resolved
+ */
+export type LeafValueType = 'string' | 'number' | 'boolean' | 'json';
+
+/**
+ * All supported leaf value types, in the order they are offered to the user
+ */
+export const LEAF_VALUE_TYPES: LeafValueType[] = ['string', 'number', 'boolean', 'json'];
+
+/**
+ * Native form of a leaf value (JSON values are objects or arrays)
+ */
+export type LeafValue = string | number | boolean | object;
+
+/**
+ * Kinds of leaf nodes
+ * - value: the value is stored in the tree
+ * - secret: the value is stored in VS Code's secret storage and only its key is kept in the tree
+ * - choice: the value is picked from a list of options each time it is resolved; the stored value is the default
+ * - computed: the value is the trimmed output of a shell command run when it is resolved; the stored value is the command
+ */
+export type LeafKind = 'value' | 'secret' | 'choice' | 'computed';
+
+/**
+ * Settings of a computed leaf besides its command
+ */
+export interface ComputedOptions {
+    /** Working directory for the command; defaults to the first workspace folder */
+    cwd?: string;
+    /** How long the output is reused before the command runs again; not cached when omitted */
+    cacheTtlSeconds?: number;
+}
+
+/**
+ * Layers the tree is stored in, from lowest to highest priority
+ * - user: personal values shared by all workspaces
+ * - workspace: the workspace's tree (workspace state, or the storage file that can be committed)
+ * - local: personal overrides for this workspace that are never written to the storage file
+ * Layers are merged by path; where several layers define the same leaf, the highest priority layer wins
+ */
+export type TreeLayer = 'user' | 'workspace' | 'local';
+
+/**
+ * All tree layers, from lowest to highest priority
+ */
+export const TREE_LAYERS: TreeLayer[] = ['user', 'workspace', 'local'];
+
+/**
+ * Outcome of importing values from a config file into the tree
+ */
+export interface ConfigImportResult {
+    /** Number of leaves added */
+    added: number;
+    /** Number of existing leaves whose value was updated */
+    updated: number;
+    /** Paths that could not be imported, with the reason */
+    skipped: string[];
+}
+
+/**
+ * Text shown in place of secret values
+ */
+export const SECRET_MASK = '••••••••';
+
+/**
+ * Theme icons used to show the type of a leaf
+ */
+const LEAF_VALUE_TYPE_ICONS: Record<LeafValueType, string> = {
+    string: 'symbol-string',
+    number: 'symbol-number',
+    boolean: 'symbol-boolean',
+    json: 'json'
+};
+
+/**
+ * Validate the text form of a leaf value against its type
+ * @param text The value as entered or stored
+ * @param valueType The type the value must conform to
+ * @returns An error message, or undefined if the value is valid
+ */
+export function validateLeafValue(text: string, valueType: LeafValueType): string | undefined {
+    switch (valueType) {
+        case 'number':
+            if (text.trim() === '' || !Number.isFinite(Number(text))) {
+                return `"${text}" is not a valid number`;
+            }
+            return undefined;
+        case 'boolean':
+            if (text.trim() !== 'true' && text.trim() !== 'false') {
+                return `"${text}" is not a valid boolean (expected true or false)`;
+            }
+            return undefined;
+        case 'json':
+            try {
+                const parsed = JSON.parse(text);
+                if (parsed === null || typeof parsed !== 'object') {
+                    return 'JSON values must be an object or an array';
+                }
+            } catch (error) {
+                return `Invalid JSON: ${error instanceof Error ? error.message : error}`;
+            }
+            return undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Convert the text form of a leaf value to its native form
+ * @param text The value text (with any references already expanded)
+ * @param valueType The type of the leaf
+ * @returns The native value
+ */
+export function parseLeafValue(text: string, valueType: LeafValueType): LeafValue {
+    const error = validateLeafValue(text, valueType);
+    if (error) {
+        throw new Error(error);
+    }
+
+    switch (valueType) {
+        case 'number':
+            return Number(text);
+        case 'boolean':
+            return text.trim() === 'true';
+        case 'json':
+            return JSON.parse(text);
+        default:
+            return text;
+    }
+}
 
 /**
  * Tree item class that extends vscode.TreeItem
@@ -10,12 +210,28 @@ import * as path from 'path';
  */
 export class DebugConfigTreeItem extends vscode.TreeItem {
     private _children?: DebugConfigTreeItem[];
+    private _isProfile = false;
+    private _isActiveProfile = false;
+    private _resolvedValue?: string;
+    private _resolveError?: string;
+    private _secretId?: string;
+    private _options?: string[];
+    private _lastChoice?: string;
+    private _computed?: ComputedOptions;
+    private _computedOutput?: { output: string, ranAt: number };
+    private _layer: TreeLayer = 'workspace';
+    private _shadows: DebugConfigTreeItem[] = [];
+    private _extends?: string;
+    private _extendsError?: string;
+    private _inheritedFrom?: { item: DebugConfigTreeItem, path: string };
+    private _inheritedChildren: DebugConfigTreeItem[] = [];
 
     constructor(
         label: string,
         collapsibleState: vscode.TreeItemCollapsibleState,
         private _value?: string,
-        children?: DebugConfigTreeItem[]
+        children?: DebugConfigTreeItem[],
+        private _valueType: LeafValueType = 'string'
     ) {
         super(label, collapsibleState);
 
@@ -30,29 +246,369 @@ export class DebugConfigTreeItem extends vscode.TreeItem {
         return this._value;
     }
 
+    /**
+     * Get the type of this tree item's value
+     */
+    get valueType(): LeafValueType {
+        return this._valueType;
+    }
+
     /**
      * Set the value of this tree item
      * When a value is set, any existing children are removed (constraint enforcement)
-     * @param value A primitive value (string, number, boolean, bigint) that can be stringified
+     * @param value A primitive value (string, number, boolean, bigint), or an object/array stored as JSON
+     * @param valueType The type of the value; inferred from the JavaScript type when omitted
      */
-    setValue(value: string | number | boolean | bigint): void {
-        // Type check to ensure only primitive types are accepted
-        const valueType = typeof value;
-        if (valueType !== 'string' && valueType !== 'number' && valueType !== 'boolean' && valueType !== 'bigint') {
-            throw new Error(`Invalid value type: ${valueType}. Only primitive types (string, number, boolean, bigint) are allowed.`);
+    setValue(value: string | number | boolean | bigint | object, valueType?: LeafValueType): void {
+        // Type check to ensure only primitives and JSON objects/arrays are accepted
+        const jsType = typeof value;
+        if (jsType !== 'string' && jsType !== 'number' && jsType !== 'boolean' && jsType !== 'bigint' && (jsType !== 'object' || value === null)) {
+            throw new Error(`Invalid value type: ${jsType}. Only primitive types (string, number, boolean, bigint) and JSON objects/arrays are allowed.`);
         }
 
-        this._value = String(value);
+        const inferredType: LeafValueType = jsType === 'number' || jsType === 'bigint' ? 'number'
+            : jsType === 'boolean' ? 'boolean'
+                : jsType === 'object' ? 'json'
+                    : 'string';
+        const text = jsType === 'object' ? JSON.stringify(value) : String(value);
+        const newType = valueType ?? inferredType;
+
+        // Values containing references or variables are validated when they are resolved
+        if (!containsExpansions(text)) {
+            const error = validateLeafValue(text, newType);
+            if (error) {
+                throw new Error(`Invalid value for "${this.label}": ${error}`);
+            }
+        }
 
-        // Enforce constraint: if we have a value, we cannot have children
-        if (this._children) {
-            this._children = undefined;
+        this._value = text;
+        this._valueType = newType;
+        this.clearLeafKind();
+        this.clearParentState();
+
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Get the kind of this leaf (where its value comes from when resolved)
+     */
+    get kind(): LeafKind {
+        if (this._secretId !== undefined) {
+            return 'secret';
+        }
+        if (this._computed !== undefined) {
+            return 'computed';
+        }
+        return this._options !== undefined ? 'choice' : 'value';
+    }
+
+    /**
+     * Get the secret storage key of a secret leaf
+     */
+    get secretId(): string | undefined {
+        return this._secretId;
+    }
+
+    /**
+     * Turn this item into a secret leaf whose value is kept in secret storage under the given id
+     * The tree itself only holds an empty value so the item remains a leaf
+     * @param secretId The id of the secret in secret storage
+     */
+    setSecret(secretId: string): void {
+        this._value = '';
+        this._valueType = 'string';
+        this.clearLeafKind();
+        this._secretId = secretId;
+        this.clearParentState();
+
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Get the options of a choice leaf
+     */
+    get options(): string[] | undefined {
+        return this._options;
+    }
+
+    /**
+     * Get the option picked the last time a choice leaf was resolved
+     */
+    get lastChoice(): string | undefined {
+        return this._lastChoice;
+    }
+
+    /**
+     * Turn this item into a choice leaf that is picked from a list of options when resolved
+     * @param options The options to choose from
+     * @param defaultOption The default option, stored as the item's value
+     */
+    setChoice(options: string[], defaultOption: string): void {
+        if (options.length === 0) {
+            throw new Error(`Choice "${this.label}" must have at least one option`);
+        }
+        if (new Set(options).size !== options.length) {
+            throw new Error(`Choice "${this.label}" has duplicate options`);
+        }
+        if (!options.includes(defaultOption)) {
+            throw new Error(`Default "${defaultOption}" is not one of the options of "${this.label}"`);
+        }
+
+        const lastChoice = this._lastChoice;
+        this._value = defaultOption;
+        this._valueType = 'string';
+        this.clearLeafKind();
+        this._options = [...options];
+        // Keep the remembered choice if it is still one of the options
+        this._lastChoice = lastChoice !== undefined && options.includes(lastChoice) ? lastChoice : undefined;
+        this.clearParentState();
+
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Remember the option picked for a choice leaf
+     * @param choice The picked option
+     */
+    setLastChoice(choice: string | undefined): void {
+        if (this._options === undefined) {
+            return;
+        }
+
+        this._lastChoice = choice !== undefined && this._options.includes(choice) ? choice : undefined;
+        this.updateDisplayProperties();
+    }
+    /**
+     * Get the settings of a computed leaf (its command is the item's value)
+     */
+    get computed(): ComputedOptions | undefined {
+        return this._computed;
+    }
+
+    /**
+     * Get the output of the last run of a computed leaf's command
+     */
+    get computedOutput(): { output: string, ranAt: number } | undefined {
+        return this._computedOutput;
+    }
+
+    /**
+     * Turn this item into a computed leaf whose value is the output of a shell command
+     * @param command The shell command, stored as the item's value
+     * @param options Working directory and caching settings
+     */
+    setComputed(command: string, options: ComputedOptions = {}): void {
+        if (command.trim() === '') {
+            throw new Error(`Computed value "${this.label}" must have a command`);
+        }
+        if (options.cacheTtlSeconds !== undefined && (!Number.isFinite(options.cacheTtlSeconds) || options.cacheTtlSeconds < 0)) {
+            throw new Error(`Invalid cache TTL for "${this.label}": must be a non-negative number of seconds`);
+        }
+
+        this._value = command;
+        this._valueType = 'string';
+        this.clearLeafKind();
+        this._computed = { ...options };
+        this.clearParentState();
+
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Record the output of a computed leaf's command (display and caching, managed by the tree data provider)
+     * @param output The trimmed output, or undefined to clear it
+     * @param ranAt When the command finished, in milliseconds since the epoch
+     */
+    setComputedOutput(output: string | undefined, ranAt: number = Date.now()): void {
+        this._computedOutput = output !== undefined && this._computed !== undefined ? { output, ranAt } : undefined;
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Get the layer this item is defined in
+     * For parents present in several layers this is the lowest one; the others are recorded as shadows
+     */
+    get layer(): TreeLayer {
+        return this._layer;
+    }
+
+    /**
+     * Get the definitions of this item's path in other layers, highest priority first
+     * For a leaf these are the values it overrides; for a parent, empty placeholders marking the other layers it exists in
+     */
+    get shadows(): DebugConfigTreeItem[] {
+        return this._shadows;
+    }
+
+    /**
+     * Set the layer this item is defined in (managed by the tree data provider)
+     * @param layer The layer
+     */
+    setLayer(layer: TreeLayer): void {
+        this._layer = layer;
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Set the definitions of this item's path in other layers (managed by the tree data provider)
+     * @param shadows The other definitions, highest priority first
+     */
+    setShadows(shadows: DebugConfigTreeItem[]): void {
+        this._shadows = shadows;
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Get the path of the node this parent extends
+     */
+    get extends(): string | undefined {
+        return this._extends;
+    }
+
+    /**
+     * Make this parent extend another node: children it does not define itself are inherited from that node
+     * Only parent nodes can extend other nodes
+     * @param basePath The dotted path of the base node, or undefined to stop extending
+     */
+    setExtends(basePath: string | undefined): void {
+        if (basePath !== undefined && this._value !== undefined) {
+            throw new Error(`Cannot make "${this.label}" extend "${basePath}" because it has a value. Only parent nodes can extend other nodes.`);
+        }
+
+        this._extends = basePath;
+        this._extendsError = undefined;
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Record why the node this parent extends could not be used (display only, managed by the tree data provider)
+     * @param error The error message, or undefined to clear it
+     */
+    setExtendsError(error?: string): void {
+        this._extendsError = error;
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Get the definition an inherited item mirrors, or undefined for items defined in the tree
+     */
+    get inheritedFrom(): DebugConfigTreeItem | undefined {
+        return this._inheritedFrom?.item;
+    }
+
+    /**
+     * Get the path of the definition an inherited item mirrors
+     */
+    get inheritedFromPath(): string | undefined {
+        return this._inheritedFrom?.path;
+    }
+
+    /**
+     * Turn this item into an inherited item that mirrors a definition elsewhere in the tree (managed by the tree data provider)
+     * @param source The definition to mirror
+     * @param sourcePath The path of the definition
+     */
+    setInheritedFrom(source: DebugConfigTreeItem, sourcePath: string): void {
+        this._inheritedFrom = { item: source, path: sourcePath };
+        this._value = source._value;
+        this._valueType = source._valueType;
+        this._secretId = source._secretId;
+        this._options = source._options;
+        this._lastChoice = source._lastChoice;
+        this._computed = source._computed;
+        this._computedOutput = source._computedOutput;
+        this._layer = source._layer;
+        if (source._value !== undefined) {
+            this._inheritedChildren = [];
             this.collapsibleState = vscode.TreeItemCollapsibleState.None;
         }
 
         this.updateDisplayProperties();
     }
 
+    /**
+     * Get the children inherited from the nodes this parent extends
+     */
+    get inheritedChildren(): DebugConfigTreeItem[] {
+        return this._inheritedChildren;
+    }
+
+    /**
+     * Set the children inherited from the nodes this parent extends (managed by the tree data provider)
+     * @param children The inherited items
+     */
+    setInheritedChildren(children: DebugConfigTreeItem[]): void {
+        this._inheritedChildren = children;
+
+        // Parents with only inherited children still have to be expandable
+        if (!this._children || this._children.length === 0) {
+            this.collapsibleState = children.length === 0 ? vscode.TreeItemCollapsibleState.None
+                : this.collapsibleState === vscode.TreeItemCollapsibleState.None ? vscode.TreeItemCollapsibleState.Collapsed
+                    : this.collapsibleState;
+        }
+    }
+
+    /**
+     * Get the children of this item followed by the children it inherits
+     */
+    get effectiveChildren(): DebugConfigTreeItem[] {
+        return [...(this._children ?? []), ...this._inheritedChildren];
+    }
+
+    /**
+     * Whether this item is marked as a profile
+     */
+    get isProfile(): boolean {
+        return this._isProfile;
+    }
+
+    /**
+     * Mark or unmark this item as a profile
+     * Only parent nodes (items without a value) can be profiles
+     * @param isProfile true to mark the item as a profile
+     */
+    setProfile(isProfile: boolean): void {
+        if (isProfile && this._value !== undefined) {
+            throw new Error(`Cannot mark "${this.label}" as a profile because it has a value. Only parent nodes can be profiles.`);
+        }
+
+        this._isProfile = isProfile;
+        if (!isProfile) {
+            this._isActiveProfile = false;
+        }
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Flag this profile as the currently active one (display only, managed by the tree data provider)
+     * @param isActive true if this profile is the active profile
+     */
+    setActiveProfile(isActive: boolean): void {
+        this._isActiveProfile = this._isProfile && isActive;
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Set the resolved form of a value that contains references (display only, managed by the tree data provider)
+     * Pass no arguments to clear it when the value has no references
+     * @param resolvedValue The value with all references expanded
+     * @param resolveError The error message if the references could not be expanded
+     */
+    setResolvedValue(resolvedValue?: string, resolveError?: string): void {
+        this._resolvedValue = resolvedValue;
+        this._resolveError = resolveError;
+        this.updateDisplayProperties();
+    }
+
+    /**
+     * Change the label of this tree item
+     * @param label The new label
+     */
+    setLabel(label: string): void {
+        this.label = label;
+        this.updateDisplayProperties();
+    }
+
     /**
      * Get the children of this tree item
      */
@@ -63,12 +619,14 @@ export class DebugConfigTreeItem extends vscode.TreeItem {
     /**
      * Add a child to this tree item (internal method)
      * This is called by the tree data provider
+     * @param child The child item to add
+     * @param index Position to insert the child at; appended when omitted
      */
-    addChild(child: DebugConfigTreeItem): void {
+    addChild(child: DebugConfigTreeItem, index?: number): void {
         if (!this._children) {
             this._children = [];
         }
-        this._children.push(child);
+        this._children.splice(index ?? this._children.length, 0, child);
 
         // Enforce constraint: if we have children, we cannot have a value
         this.resetValue();
@@ -113,26 +671,185 @@ export class DebugConfigTreeItem extends vscode.TreeItem {
      */
     private resetValue(): void {
         this._value = undefined;
+        this.clearLeafKind();
         this.updateDisplayProperties();
     }
 
+    /**
+     * Drop secret and choice state (used when changing the kind of a leaf)
+     */
+    private clearLeafKind(): void {
+        this._secretId = undefined;
+        this._options = undefined;
+        this._lastChoice = undefined;
+        this._computed = undefined;
+        this._computedOutput = undefined;
+    }
+
+    /**
+     * Drop children and profile state (used when converting to leaf node)
+     */
+    private clearParentState(): void {
+        // Enforce constraint: if we have a value, we cannot have children
+        if (this._children) {
+            this._children = undefined;
+            this.collapsibleState = vscode.TreeItemCollapsibleState.None;
+        }
+
+        // Leaf nodes cannot be profiles or extend other nodes
+        this._isProfile = false;
+        this._isActiveProfile = false;
+        this._extends = undefined;
+        this._extendsError = undefined;
+        this._inheritedChildren = [];
+    }
+
     /**
      * Update display properties based on current state
      */
     private updateDisplayProperties(): void {
         // Set contextValue based on whether this is a leaf or parent node
-        this.contextValue = this._value !== undefined ? 'leaf' : 'parent';
-
-        // For leaf nodes, show the value in the tree display
+        // Profiles are parents with a ".profile" suffix so menus can match on /^parent/
+        // Likewise special leaf kinds are leaves with a suffix, e.g. "leaf.secret"
+        // Leaves that override another layer end in ".overridden", e.g. "leaf.secret.overridden"
+        const kind = this.kind;
         if (this._value !== undefined) {
-            this.description = this._value;
-            this.tooltip = `${this.label}: ${this._value}`;
+            this.contextValue = kind === 'value' ? 'leaf' : `leaf.${kind}`;
+            if (this._shadows.length > 0) {
+                this.contextValue += '.overridden';
+            }
+        } else {
+            this.contextValue = this._isProfile ? 'parent.profile' : 'parent';
+        }
+
+        // For secret leaves, never show the value
+        if (kind === 'secret') {
+            this.description = SECRET_MASK;
+            this.tooltip = `${this.label}: ${SECRET_MASK}\nStored in VS Code secret storage`;
+            this.iconPath = new vscode.ThemeIcon('key');
+        } else if (kind === 'choice') {
+            // For choice leaves, show the option that will be pre-selected
+            const current = this._lastChoice ?? this._value as string;
+            this.description = `${current} (choice of ${this._options?.length})`;
+            this.tooltip = `${this.label}: one of ${this._options?.join(', ')}\nDefault: ${this._value}`;
+            if (this._lastChoice !== undefined) {
+                this.tooltip += `\nLast choice: ${this._lastChoice}`;
+            }
+            this.iconPath = new vscode.ThemeIcon('list-selection');
+        } else if (kind === 'computed') {
+            // For computed leaves, show the command and the output of its last run
+            const lastRun = this._computedOutput;
+            this.description = lastRun ? `$ ${this._value} → ${lastRun.output}` : `$ ${this._value}`;
+            this.tooltip = `${this.label}: $ ${this._value}`;
+            if (this._computed?.cwd) {
+                this.tooltip += `\nWorking directory: ${this._computed.cwd}`;
+            }
+            if (this._computed?.cacheTtlSeconds) {
+                this.tooltip += `\nCached for ${this._computed.cacheTtlSeconds}s`;
+            }
+            this.tooltip += lastRun ? `\nLast output (${new Date(lastRun.ranAt).toLocaleTimeString()}): ${lastRun.output}` : '\nNot run yet';
+            this.iconPath = new vscode.ThemeIcon('terminal');
+        } else if (this._value !== undefined) {
+            // For leaf nodes, show the value in the tree display
+            if (this._resolveError !== undefined) {
+                this.description = `${this._value} → (error)`;
+                this.tooltip = `${this.label}: ${this._value}\nError: ${this._resolveError}`;
+            } else if (this._resolvedValue !== undefined) {
+                this.description = `${this._value} → ${this._resolvedValue}`;
+                this.tooltip = `${this.label}: ${this._value}\nResolved: ${this._resolvedValue}`;
+            } else {
+                this.description = this._value;
+                this.tooltip = `${this.label}: ${this._value}`;
+            }
+            this.tooltip += `\nType: ${this._valueType}`;
+            this.iconPath = new vscode.ThemeIcon(LEAF_VALUE_TYPE_ICONS[this._valueType]);
+        } else if (this._isProfile) {
+            // Profiles are marked with an icon, and the active one is called out
+            this.description = this._isActiveProfile ? 'profile (active)' : 'profile';
+            this.tooltip = this._isActiveProfile ? `${this.label}: active profile` : `${this.label}: profile`;
+            this.iconPath = new vscode.ThemeIcon(this._isActiveProfile ? 'pass-filled' : 'layers');
         } else {
             // Clear description and tooltip for parent nodes
             this.description = undefined;
             this.tooltip = undefined;
+            this.iconPath = undefined;
         }
-    }
+
+        // Leaves show the layer their value comes from unless it is the workspace layer with nothing overridden
+        if (this._value !== undefined && typeof this.tooltip === 'string') {
+            const overridden = this._shadows.map(shadow => shadow.layer);
+            const overrides = overridden.length > 0 ? `overrides ${overridden.join(', ')}` : undefined;
+            if (this._layer !== 'workspace' || overrides) {
+                this.description = `${this.description} [${[this._layer, overrides].filter(part => part).join(', ')}]`;
+            }
+            this.tooltip += `\nLayer: ${this._layer}${overrides ? ` (${overrides})` : ''}`;
+        }
+
+        // Parents show the node they extend
+        if (this._value === undefined && this._extends !== undefined) {
+            const note = `extends ${this._extends}${this._extendsError !== undefined ? ' (error)' : ''}`;
+            this.description = this.description ? `${this.description}, ${note}` : note;
+            this.tooltip = `${this.tooltip ?? this.label}\nExtends ${this._extends}`;
+            if (this._extendsError !== undefined) {
+                this.tooltip += `\nError: ${this._extendsError}`;
+            }
+        }
+
+        // Inherited items are dimmed, show where they come from and only offer "Override Here" (e.g. "inherited.leaf")
+        if (this._inheritedFrom) {
+            this.contextValue = `inherited.${this.contextValue}`;
+            this.description = `${this.description ?? ''} (from ${this._inheritedFrom.path})`.trimStart();
+            this.tooltip = `${this.tooltip ?? this.label}\nInherited from ${this._inheritedFrom.path}`;
+            const iconId = this.iconPath instanceof vscode.ThemeIcon ? this.iconPath.id : 'symbol-namespace';
+            this.iconPath = new vscode.ThemeIcon(iconId, new vscode.ThemeColor('disabledForeground'));
+        }
+    }
+}
+
+/**
+ * Prefix for paths that are resolved relative to the active profile (e.g. "@profile.port")
+ */
+export const PROFILE_PATH_PREFIX = '@profile';
+
+/**
+ * A node whose path changes, through a rename or a move (paths are lowercased)
+ */
+export interface PathChange {
+    /** The dotted path of the node before the change */
+    oldPath: string;
+    /** The dotted path of the node after the change */
+    newPath: string;
+}
+
+/**
+ * Error thrown when the user cancels a prompt while a value is being resolved (e.g. dismissing a choice)
+ * Callers can use it to abort quietly instead of reporting a failure
+ */
+export class ResolveCancelledError extends Error {
+    constructor(itemPath: string) {
+        super(`Resolving "${itemPath}" was cancelled`);
+        this.name = 'ResolveCancelledError';
+    }
+}
+
+/**
+ * Get the plain string label of a tree item
+ */
+export function getItemLabel(item: DebugConfigTreeItem): string {
+    return typeof item.label === 'string' ? item.label : item.label?.label || '';
+}
+
+/**
+ * Give secret placeholders without a key (e.g. { "kind": "secret" } in a hand-written file) a new one
+ * @param nodes The serialized tree items, updated in place
+ */
+function assignMissingSecretIds(nodes: any[]): void {
+    for (const node of nodes) {
+        if (node?.kind === 'secret' && typeof node.secretId !== 'string') {
+            node.secretId = randomUUID();
+        }
+        assignMissingSecretIds(Array.isArray(node?.children) ? node.children : []);
+    }
 }
 
 /**
@@ -142,12 +859,34 @@ export class DebugConfigTreeItem extends vscode.TreeItem {
 export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<DebugConfigTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<DebugConfigTreeItem | undefined | null | void> = new vscode.EventEmitter<DebugConfigTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<DebugConfigTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+    private _onDidChangeActiveProfile: vscode.EventEmitter<string | undefined> = new vscode.EventEmitter<string | undefined>();
+    readonly onDidChangeActiveProfile: vscode.Event<string | undefined> = this._onDidChangeActiveProfile.event;
     private static readonly TREE_STATE_KEY = 'debugConfigTreeState';
+    private static readonly USER_TREE_STATE_KEY = 'debugConfigUserTreeState';
+    private static readonly LOCAL_TREE_STATE_KEY = 'debugConfigLocalTreeState';
+    private static readonly ACTIVE_PROFILE_KEY = 'debugConfigActiveProfile';
+    private static readonly SECRET_KEY_PREFIX = 'debugConfigs.secret.';
+    private activeProfilePath?: string;
+    private fileStorage?: TreeStateFileStorage;
+    private fileStorageSubscription?: vscode.Disposable;
+    private inheritedItems = new Map<string, DebugConfigTreeItem>();
+    private readonly history: TreeHistory;
+    private readonly snapshots: TreeSnapshotStore;
+    /** Fired when an edit is recorded, undone or redone */
+    readonly onDidChangeHistory: vscode.Event<void>;
+    /** The tree as last saved or loaded, recorded as the state before the next edit */
+    private historyBaseline?: LayeredTreeState;
 
     constructor(
         private rootItems: DebugConfigTreeItem[] = [],
-        private workspaceState?: vscode.Memento
-    ) { }
+        private workspaceState?: vscode.Memento,
+        private secretStorage?: vscode.SecretStorage,
+        private globalState?: vscode.Memento
+    ) {
+        this.history = new TreeHistory(workspaceState);
+        this.onDidChangeHistory = this.history.onDidChange;
+        this.snapshots = new TreeSnapshotStore(workspaceState);
+    }
 
     /**
      * Required method: Returns the UI representation of the element
@@ -165,8 +904,9 @@ export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<Debu
                 // Return root level items
                 return Promise.resolve(this.rootItems.length > 0 ? this.rootItems : null);
             } else {
-                // Return children of the given element, or null if no children
-                return Promise.resolve(element.children && element.children.length > 0 ? element.children : null);
+                // Return children of the given element, including inherited ones, or null if no children
+                const children = element.effectiveChildren;
+                return Promise.resolve(children.length > 0 ? children : null);
             }
         } catch (error) {
             console.error('Error getting tree children:', error);
@@ -174,153 +914,1749 @@ export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<Debu
         }
     }
 
+    /**
+     * Returns the parent of the given element, or undefined for root items
+     */
+    getParent(element: DebugConfigTreeItem): DebugConfigTreeItem | undefined {
+        const search = (items: DebugConfigTreeItem[], parent?: DebugConfigTreeItem): DebugConfigTreeItem | undefined => {
+            for (const item of items) {
+                if (item === element) {
+                    return parent;
+                }
+                const found = search(item.effectiveChildren, item);
+                if (found) {
+                    return found;
+                }
+            }
+            return undefined;
+        };
+
+        return search(this.rootItems);
+    }
+
     /**
      * Refresh the tree view
      */
     refresh(): void {
+        this.updateInheritedChildren();
+        this.updateResolvedValues();
         this._onDidChangeTreeData.fire();
     }
 
     /**
-     * Update the root items and refresh the tree
+     * Update the root items and refresh the tree
+     */
+    updateData(newData: DebugConfigTreeItem[]): void {
+        this.rootItems = newData;
+        this.refresh();
+        this.saveTreeState();
+    }
+
+    /**
+     * Add a child to a specific parent node in the tree
+     * When children are added, the parent's value is automatically set to undefined (constraint enforcement)
+     */
+    addChild(parent: DebugConfigTreeItem, child: DebugConfigTreeItem): void {
+        parent.addChild(child);
+
+        // Refresh the tree to show the changes
+        this.refresh();
+        this.saveTreeState(`Add "${getItemLabel(child)}"`);
+    }
+
+    /**
+     * Remove a child from a specific parent node in the tree
+     * @param parent The parent node to remove the child from
+     * @param child The child node to remove
+     * @returns true if the child was found and removed, false otherwise
+     */
+    removeChild(parent: DebugConfigTreeItem, child: DebugConfigTreeItem): boolean {
+        const removed = parent.removeChild(child);
+
+        if (removed) {
+            // Refresh the tree to show the changes
+            this.refresh();
+            this.saveTreeState(`Remove "${getItemLabel(child)}"`);
+        }
+
+        return removed;
+    }
+
+    /**
+     * Remove a root item from the tree
+     * @param item The root item to remove
+     * @returns true if the item was found and removed, false otherwise
+     */
+    removeRootItem(item: DebugConfigTreeItem): boolean {
+        const index = this.rootItems.indexOf(item);
+        if (index === -1) {
+            return false;
+        }
+
+        this.rootItems.splice(index, 1);
+
+        // Refresh the tree to show the changes
+        this.refresh();
+        this.saveTreeState(`Remove "${getItemLabel(item)}"`);
+
+        return true;
+    }
+
+    /**
+     * Clear the workspace and local layers of the tree
+     * The user layer is shared with other workspaces, so its items are kept
+     */
+    clear(): void {
+        const newRootItems = this.mergeLayers({ user: this.serializeLayer(this.rootItems, 'user') });
+        const keptSecretIds = new Set(this.collectSecretLeaves(newRootItems).map(secret => secret.item.secretId));
+        const secretIds = this.collectSecretLeaves(this.rootItems)
+            .map(secret => secret.item.secretId as string)
+            .filter(secretId => !keptSecretIds.has(secretId));
+
+        this.rootItems = newRootItems;
+        this.updateActiveProfileDisplay();
+        this.refresh();
+        this.saveTreeState('Clear tree');
+        this.releaseSecrets(secretIds);
+    }
+
+    /**
+     * Add a new root item to the tree
+     * @param label The label for the new root item
+     */
+    addRootItem(label: string): void {
+        // Validate that label doesn't contain dots
+        if (label.includes('.')) {
+            throw new Error(`Invalid label "${label}": Labels cannot contain dots (.) as they are used for path navigation`);
+        }
+
+        const newItem = new DebugConfigTreeItem(
+            label,
+            vscode.TreeItemCollapsibleState.None
+        );
+        this.rootItems.push(newItem);
+        this.refresh();
+        this.saveTreeState(`Add "${label}"`);
+    }
+
+    /**
+     * Add a child to a specific item in the tree
+     * The child is created in the parent's layer
+     * @param parent The parent item to add the child to
+     * @param childLabel The label for the new child item
+     * @param childValue Optional value for the new child item (creates leaf node if provided)
+     * @param valueType The type of the child value (defaults to string)
+     */
+    addChildToItem(parent: DebugConfigTreeItem, childLabel: string, childValue?: string, valueType: LeafValueType = 'string'): void {
+        // Validate that label doesn't contain dots
+        if (childLabel.includes('.')) {
+            throw new Error(`Invalid label "${childLabel}": Labels cannot contain dots (.) as they are used for path navigation`);
+        }
+
+        const newChild = new DebugConfigTreeItem(
+            childLabel,
+            vscode.TreeItemCollapsibleState.None
+        );
+        if (childValue !== undefined) {
+            newChild.setValue(childValue, valueType);
+        }
+        newChild.setLayer(parent.layer);
+        parent.addChild(newChild);
+        this.refresh();
+        this.saveTreeState(`Add "${childLabel}"`);
+    }
+
+    /**
+     * Check that string leaves can be added at the given paths, without adding them
+     * Spaces around the labels of a path are ignored
+     * @param values The dotted paths and their values
+     * @throws If a path has an empty label, passes through a leaf, is used for two values or holds a different value
+     */
+    validateValuesAtPaths(values: Array<{ path: string, value: string }>): void {
+        const planned = new Map<string, string>();
+        for (const { path: itemPath, value } of values) {
+            const parts = itemPath.split('.').map(part => part.trim());
+            if (parts.some(part => part === '')) {
+                throw new Error(`Invalid path "${itemPath}": Labels cannot be empty`);
+            }
+            const plannedPath = parts.join('.').toLowerCase();
+            if (planned.has(plannedPath) && planned.get(plannedPath) !== value) {
+                throw new Error(`Path "${itemPath}" is used for two different values`);
+            }
+            planned.set(plannedPath, value);
+
+            let items = this.rootItems;
+            for (let i = 0; i < parts.length; i++) {
+                const existing = items.find(item => getItemLabel(item).toLowerCase() === parts[i].toLowerCase());
+                if (!existing) {
+                    break;
+                }
+                if (i < parts.length - 1 && existing.value !== undefined) {
+                    throw new Error(`Cannot add "${itemPath}" because "${parts.slice(0, i + 1).join('.')}" is a leaf node with a value`);
+                }
+                if (i === parts.length - 1 && (existing.kind !== 'value' || existing.value !== value)) {
+                    throw new Error(`"${itemPath}" already exists with a different value`);
+                }
+                items = existing.children ?? [];
+            }
+        }
+    }
+
+    /**
+     * Add string leaves at the given paths, creating missing parents
+     * New root items are created in the workspace layer, other new items in their parent's layer
+     * A leaf that already exists with the same value is reused; every path is checked before the tree changes
+     * Spaces around the labels of a path are ignored
+     * @param values The dotted paths (with labels in the case they should be created with) and their values
+     * @returns The number of leaves added
+     */
+    addValuesAtPaths(values: Array<{ path: string, value: string }>): number {
+        this.validateValuesAtPaths(values);
+
+        let added = 0;
+        for (const { path: itemPath, value } of values) {
+            const parts = itemPath.split('.').map(part => part.trim());
+            let parent: DebugConfigTreeItem | undefined;
+
+            for (let i = 0; i < parts.length; i++) {
+                const siblings = parent ? parent.children ?? [] : this.rootItems;
+                let current = siblings.find(item => getItemLabel(item).toLowerCase() === parts[i].toLowerCase());
+                if (!current) {
+                    current = new DebugConfigTreeItem(parts[i], vscode.TreeItemCollapsibleState.None);
+                    if (i === parts.length - 1) {
+                        current.setValue(value, 'string');
+                        added++;
+                    }
+                    current.setLayer(parent?.layer ?? 'workspace');
+                    if (parent) {
+                        parent.addChild(current);
+                    } else {
+                        this.rootItems.push(current);
+                    }
+                }
+                parent = current;
+            }
+        }
+
+        this.refresh();
+        this.saveTreeState('Add values');
+        return added;
+    }
+
+    /**
+     * Find the parent node at a dotted path, creating it and any missing ancestors
+     * New root items are created in the workspace layer, other new items in their parent's layer
+     * @param itemPath The dotted path, with labels in the case they should be created with
+     * @returns The parent node
+     */
+    ensureParentAtPath(itemPath: string): DebugConfigTreeItem {
+        const { parent, created } = this.createParentsAtPath(itemPath);
+        if (created) {
+            this.refresh();
+            this.saveTreeState(`Add "${itemPath}"`);
+        }
+        return parent;
+    }
+
+    /**
+     * Find the parent node at a dotted path, creating it and any missing ancestors without saving the tree
+     * @param itemPath The dotted path, with labels in the case they should be created with
+     * @returns The parent node, and whether any node was created
+     */
+    private createParentsAtPath(itemPath: string): { parent: DebugConfigTreeItem, created: boolean } {
+        let parent: DebugConfigTreeItem | undefined;
+        let created = false;
+
+        for (const part of itemPath.split('.')) {
+            const label = part.trim();
+            if (label === '') {
+                throw new Error(`Invalid path "${itemPath}": Labels cannot be empty`);
+            }
+
+            const siblings = parent ? parent.children ?? [] : this.rootItems;
+            let current = siblings.find(item => getItemLabel(item).toLowerCase() === label.toLowerCase());
+            if (current && current.value !== undefined) {
+                throw new Error(`Cannot use "${itemPath}" as a parent because "${getItemLabel(current)}" is a leaf node with a value`);
+            }
+            if (!current) {
+                current = new DebugConfigTreeItem(label, vscode.TreeItemCollapsibleState.None);
+                current.setLayer(parent?.layer ?? 'workspace');
+                if (parent) {
+                    parent.addChild(current);
+                } else {
+                    this.rootItems.push(current);
+                }
+                created = true;
+            }
+            parent = current;
+        }
+
+        return { parent: parent as DebugConfigTreeItem, created };
+    }
+
+    /**
+     * Set the value of the leaf at a dotted path, creating the leaf and its missing parents
+     * The tree is saved once, so the change is a single edit in the undo history
+     * @param itemPath The dotted path, with labels in the case they should be created with
+     * @param value The value as text
+     * @param valueType The type of the value
+     */
+    setValueAtPath(itemPath: string, value: string, valueType: LeafValueType = 'string'): void {
+        const parts = itemPath.split('.');
+        const label = (parts.pop() as string).trim();
+        if (label === '') {
+            throw new Error(`Invalid path "${itemPath}": Labels cannot be empty`);
+        }
+
+        const parent = parts.length > 0 ? this.createParentsAtPath(parts.join('.')).parent : undefined;
+        const siblings = parent ? parent.children ?? [] : this.rootItems;
+        const existing = siblings.find(item => getItemLabel(item).toLowerCase() === label.toLowerCase());
+
+        if (existing) {
+            if (existing.value === undefined && (existing.children ?? []).length > 0) {
+                throw new Error(`Cannot set a value for "${itemPath}" because it has children`);
+            }
+            if (existing.kind !== 'value') {
+                throw new Error(`Cannot set "${itemPath}" because it is a ${existing.kind} value`);
+            }
+            existing.setValue(value, valueType);
+        } else {
+            const newItem = new DebugConfigTreeItem(label, vscode.TreeItemCollapsibleState.None);
+            newItem.setValue(value, valueType);
+            newItem.setLayer(parent?.layer ?? 'workspace');
+            if (parent) {
+                parent.addChild(newItem);
+            } else {
+                this.rootItems.push(newItem);
+            }
+        }
+
+        this.refresh();
+        this.saveTreeState(existing ? `Set "${getItemLabel(existing)}"` : `Add "${itemPath}"`);
+    }
+
+    /**
+     * Remove an item from the tree (works for both root items and child items)
+     * @param item The item to remove
+     */
+    removeItem(item: DebugConfigTreeItem): void {
+        // The item is removed from every layer, and secrets in the removed subtree are deleted from secret storage
+        const secretIds = this.collectSecretLeaves([item]).map(secret => secret.item.secretId as string);
+
+        // First try to remove from root items, and if not found in root, search through all items to find the parent
+        if (this.removeRootItem(item) || this.removeItemRecursively(this.rootItems, item)) {
+            this.releaseSecrets(secretIds);
+        }
+    }
+
+    /**
+     * Check that items can be moved, without moving them
+     * @param items The items to move; items whose ancestor is also being moved travel with that ancestor
+     * @param newParent The parent node to move the items into, or undefined for the root
+     * @param before The sibling to insert the items before
+     * @returns The paths of the moved items before and after the move, leaving out items whose path stays the same
+     * @throws If the target is a leaf, an item is inherited or would end up inside itself, or a sibling already has an item's label
+     */
+    validateMove(items: DebugConfigTreeItem[], newParent?: DebugConfigTreeItem, before?: DebugConfigTreeItem): PathChange[] {
+        if (newParent && newParent.value !== undefined) {
+            throw new Error(`Cannot move items into "${newParent.label}" because it is a leaf node with a value`);
+        }
+        if (newParent?.inheritedFrom || items.some(item => item.inheritedFrom)) {
+            throw new Error('Inherited items cannot be moved or receive items. Use "Override Here" first.');
+        }
+
+        // Dropping items relative to themselves is a no-op
+        const topmostItems = this.getTopmostItems(items);
+        if (before && topmostItems.includes(before)) {
+            return [];
+        }
+
+        for (const item of topmostItems) {
+            if (newParent && (item === newParent || this.isAncestor(item, newParent))) {
+                throw new Error(`Cannot move "${item.label}" into itself or one of its descendants`);
+            }
+        }
+
+        // Labels must stay unique among siblings so paths remain unambiguous
+        const siblings = (newParent ? newParent.children ?? [] : this.rootItems).filter(sibling => !topmostItems.includes(sibling));
+        const labels = new Set(siblings.map(sibling => getItemLabel(sibling).toLowerCase()));
+        for (const item of topmostItems) {
+            const label = getItemLabel(item).toLowerCase();
+            if (labels.has(label)) {
+                throw new Error(`Cannot move "${item.label}" because an item with the same label already exists there`);
+            }
+            labels.add(label);
+        }
+
+        const parentPath = newParent ? this.getItemPath(newParent) : undefined;
+        return topmostItems
+            .map(item => ({
+                oldPath: this.getItemPath(item) ?? '',
+                newPath: (parentPath ? `${parentPath}.${getItemLabel(item)}` : getItemLabel(item)).toLowerCase()
+            }))
+            .filter(change => change.oldPath !== '' && change.oldPath !== change.newPath);
+    }
+
+    /**
+     * Move items (with their subtrees) to a new parent, or to the root when no parent is given
+     * Items are inserted before the given sibling, or appended when none is given
+     * @param items The items to move; items whose ancestor is also being moved travel with that ancestor
+     * @param newParent The parent node to move the items into, or undefined for the root
+     * @param before The sibling to insert the items before
+     */
+    moveItems(items: DebugConfigTreeItem[], newParent?: DebugConfigTreeItem, before?: DebugConfigTreeItem): void {
+        this.validateMove(items, newParent, before);
+
+        // Only move the topmost of the selected items; descendants move with their ancestors
+        const topmostItems = this.getTopmostItems(items);
+        if (before && topmostItems.includes(before)) {
+            return;
+        }
+
+        // Remember the active profile and the moved paths so they can be updated afterwards
+        const activeProfile = this.activeProfilePath ? this.findItemByPath(this.activeProfilePath) : undefined;
+        const oldPaths = topmostItems.map(item => this.getItemPath(item));
+
+        // Detach the items from their current parents
+        for (const item of topmostItems) {
+            const parent = this.getParent(item);
+            if (parent) {
+                parent.removeChild(item);
+            } else {
+                this.rootItems.splice(this.rootItems.indexOf(item), 1);
+            }
+        }
+
+        // Attach them in order, each one before the target sibling
+        for (const item of topmostItems) {
+            const targetList = newParent ? newParent.children ?? [] : this.rootItems;
+            const index = before ? targetList.indexOf(before) : -1;
+            if (newParent) {
+                newParent.addChild(item, index >= 0 ? index : undefined);
+            } else {
+                this.rootItems.splice(index >= 0 ? index : this.rootItems.length, 0, item);
+            }
+        }
+
+        topmostItems.forEach((item, i) => {
+            const oldPath = oldPaths[i];
+            const newPath = this.getItemPath(item);
+            if (oldPath && newPath && oldPath !== newPath) {
+                this.rewriteReferences(oldPath, newPath);
+            }
+        });
+
+        if (activeProfile) {
+            this.activeProfilePath = this.getItemPath(activeProfile);
+            this.saveActiveProfile();
+        }
+
+        this.refresh();
+        this.saveTreeState('Move items');
+    }
+
+    /**
+     * Keep only the items none of whose ancestors are among the items
+     */
+    private getTopmostItems(items: DebugConfigTreeItem[]): DebugConfigTreeItem[] {
+        return items.filter(item => !items.some(other => other !== item && this.isAncestor(other, item)));
+    }
+
+    /**
+     * Check that an item can be renamed, without renaming it
+     * @param item The item to rename
+     * @param newLabel The new label
+     * @returns The dotted path the item will have after the rename
+     * @throws If the label is invalid, the item is inherited or a sibling already has the label
+     */
+    validateRename(item: DebugConfigTreeItem, newLabel: string): string {
+        // Validate that label doesn't contain dots
+        if (newLabel.includes('.')) {
+            throw new Error(`Invalid label "${newLabel}": Labels cannot contain dots (.) as they are used for path navigation`);
+        }
+
+        if (item.inheritedFrom) {
+            throw new Error(`Cannot rename "${item.label}" because it is inherited from "${item.inheritedFromPath}"`);
+        }
+
+        const parent = this.getParent(item);
+        const siblings = parent ? parent.children ?? [] : this.rootItems;
+        if (siblings.some(sibling => sibling !== item && getItemLabel(sibling).toLowerCase() === newLabel.toLowerCase())) {
+            throw new Error(`Cannot rename "${item.label}" to "${newLabel}" because an item with the same label already exists there`);
+        }
+
+        const parentPath = parent ? this.getItemPath(parent) : undefined;
+        return (parentPath ? `${parentPath}.${newLabel}` : newLabel).toLowerCase();
+    }
+
+    /**
+     * Rename an item in the tree
+     * References (${ref:...}) in other leaves that pass through the renamed item are updated to the new path
+     * @param item The item to rename
+     * @param newLabel The new label
+     */
+    renameItem(item: DebugConfigTreeItem, newLabel: string): void {
+        this.validateRename(item, newLabel);
+
+        const oldPath = this.getItemPath(item);
+        const activeProfile = this.activeProfilePath ? this.findItemByPath(this.activeProfilePath) : undefined;
+
+        item.setLabel(newLabel);
+
+        const newPath = this.getItemPath(item);
+        if (oldPath && newPath) {
+            this.rewriteReferences(oldPath, newPath);
+        }
+
+        if (activeProfile) {
+            this.activeProfilePath = this.getItemPath(activeProfile);
+            this.saveActiveProfile();
+        }
+
+        this.refresh();
+        this.saveTreeState(`Rename to "${newLabel}"`);
+    }
+
+    /**
+     * Rewrite ${ref:...} references in all leaf values, and the paths parents extend, from one path prefix to another
+     * @param oldPath The path prefix being replaced
+     * @param newPath The path prefix to replace it with
+     */
+    private rewriteReferences(oldPath: string, newPath: string): void {
+        const traverseItems = (items: DebugConfigTreeItem[]) => {
+            for (const item of items) {
+                // Values overridden in other layers are kept consistent too
+                traverseItems(item.shadows);
+
+                const basePath = item.extends?.toLowerCase();
+                if (basePath !== undefined && (basePath === oldPath || basePath.startsWith(`${oldPath}.`))) {
+                    item.setExtends(`${newPath}${basePath.substring(oldPath.length)}`);
+                }
+
+                if (item.kind === 'value' && item.value !== undefined && item.value.search(REFERENCE_PATTERN) !== -1) {
+                    const rewritten = item.value.replace(REFERENCE_PATTERN, (match, referencePath: string) => {
+                        const trimmedPath = referencePath.trim();
+                        const lowerPath = trimmedPath.toLowerCase();
+                        if (lowerPath !== oldPath && !lowerPath.startsWith(`${oldPath}.`)) {
+                            return match;
+                        }
+                        return `\${ref:${newPath}${trimmedPath.substring(oldPath.length)}}`;
+                    });
+                    if (rewritten !== item.value) {
+                        item.setValue(rewritten, item.valueType);
+                    }
+                }
+                if (item.children) {
+                    traverseItems(item.children);
+                }
+            }
+        };
+
+        traverseItems(this.rootItems);
+    }
+
+    /**
+     * Check whether one item is an ancestor of another
+     * @param ancestor The potential ancestor
+     * @param item The potential descendant
+     */
+    private isAncestor(ancestor: DebugConfigTreeItem, item: DebugConfigTreeItem): boolean {
+        return (ancestor.children ?? []).some(child => child === item || this.isAncestor(child, item));
+    }
+
+    /**
+     * Set the value of a specific item
+     * @param item The item to set the value for
+     * @param value The value to set
+     * @param valueType The type of the value (defaults to string)
+     */
+    setItemValue(item: DebugConfigTreeItem, value: string, valueType: LeafValueType = 'string'): void {
+        const previousSecretId = item.secretId;
+        item.setValue(value, valueType);
+        this.refresh();
+        this.saveTreeState(`Set "${getItemLabel(item)}"`);
+        if (previousSecretId) {
+            this.releaseSecrets([previousSecretId]);
+        }
+    }
+
+    /**
+     * Add a computed leaf to a specific item in the tree
+     * @param parent The parent item to add the computed leaf to
+     * @param childLabel The label for the new computed leaf
+     * @param command The shell command whose output is the value
+     * @param options Working directory and caching settings
+     */
+    addComputedToItem(parent: DebugConfigTreeItem, childLabel: string, command: string, options: ComputedOptions = {}): void {
+        // Validate that label doesn't contain dots
+        if (childLabel.includes('.')) {
+            throw new Error(`Invalid label "${childLabel}": Labels cannot contain dots (.) as they are used for path navigation`);
+        }
+
+        const newChild = new DebugConfigTreeItem(
+            childLabel,
+            vscode.TreeItemCollapsibleState.None
+        );
+        newChild.setComputed(command, options);
+
+        newChild.setLayer(parent.layer);
+        parent.addChild(newChild);
+        this.refresh();
+        this.saveTreeState(`Add "${childLabel}"`);
+    }
+
+    /**
+     * Set the command of a computed leaf, turning the item into a computed leaf if it is not one already
+     * @param item The item to update
+     * @param command The shell command whose output is the value
+     * @param options Working directory and caching settings
+     */
+    setItemComputed(item: DebugConfigTreeItem, command: string, options: ComputedOptions = {}): void {
+        const previousSecretId = item.secretId;
+        item.setComputed(command, options);
+
+        this.refresh();
+        this.saveTreeState(`Set "${getItemLabel(item)}"`);
+        if (previousSecretId) {
+            this.releaseSecrets([previousSecretId]);
+        }
+    }
+
+    /**
+     * Add a choice leaf to a specific item in the tree
+     * @param parent The parent item to add the choice to
+     * @param childLabel The label for the new choice leaf
+     * @param options The options to pick from when the value is resolved
+     * @param defaultOption The option offered first until a choice has been made
+     */
+    addChoiceToItem(parent: DebugConfigTreeItem, childLabel: string, options: string[], defaultOption: string): void {
+        // Validate that label doesn't contain dots
+        if (childLabel.includes('.')) {
+            throw new Error(`Invalid label "${childLabel}": Labels cannot contain dots (.) as they are used for path navigation`);
+        }
+
+        const newChild = new DebugConfigTreeItem(
+            childLabel,
+            vscode.TreeItemCollapsibleState.None
+        );
+        newChild.setChoice(options, defaultOption);
+
+        newChild.setLayer(parent.layer);
+        parent.addChild(newChild);
+        this.refresh();
+        this.saveTreeState(`Add "${childLabel}"`);
+    }
+
+    /**
+     * Set the options of a choice leaf, turning the item into a choice leaf if it is not one already
+     * @param item The item to update
+     * @param options The options to pick from when the value is resolved
+     * @param defaultOption The option offered first until a choice has been made
+     */
+    setItemChoice(item: DebugConfigTreeItem, options: string[], defaultOption: string): void {
+        const previousSecretId = item.secretId;
+        item.setChoice(options, defaultOption);
+
+        this.refresh();
+        this.saveTreeState(`Set "${getItemLabel(item)}"`);
+        if (previousSecretId) {
+            this.releaseSecrets([previousSecretId]);
+        }
+    }
+
+    /**
+     * Add a secret leaf to a specific item in the tree
+     * The value is written to secret storage; the tree only keeps its key
+     * @param parent The parent item to add the secret to
+     * @param childLabel The label for the new secret leaf
+     * @param secretValue The secret value
+     */
+    async addSecretToItem(parent: DebugConfigTreeItem, childLabel: string, secretValue: string): Promise<void> {
+        // Validate that label doesn't contain dots
+        if (childLabel.includes('.')) {
+            throw new Error(`Invalid label "${childLabel}": Labels cannot contain dots (.) as they are used for path navigation`);
+        }
+
+        const newChild = new DebugConfigTreeItem(
+            childLabel,
+            vscode.TreeItemCollapsibleState.None
+        );
+        newChild.setSecret(randomUUID());
+        await this.storeSecret(newChild.secretId as string, secretValue);
+
+        newChild.setLayer(parent.layer);
+        parent.addChild(newChild);
+        this.refresh();
+        this.saveTreeState(`Add "${childLabel}"`);
+    }
+
+    /**
+     * Set the value of a secret leaf, turning the item into a secret leaf if it is not one already
+     * @param item The item to set the secret for
+     * @param secretValue The secret value
+     */
+    async setItemSecret(item: DebugConfigTreeItem, secretValue: string): Promise<void> {
+        if (item.children && item.children.length > 0) {
+            throw new Error(`Cannot set value for "${item.label}" because it has children. Remove all children first.`);
+        }
+
+        const secretId = item.secretId ?? randomUUID();
+        await this.storeSecret(secretId, secretValue);
+        item.setSecret(secretId);
+
+        this.refresh();
+        this.saveTreeState(`Set "${getItemLabel(item)}"`);
+    }
+
+    /**
+     * Read the value of a secret leaf from secret storage
+     * @param item The secret leaf
+     * @param itemPath The path of the leaf, used in error messages
+     */
+    private async getSecretValue(item: DebugConfigTreeItem, itemPath: string): Promise<string> {
+        if (!this.secretStorage) {
+            throw new Error(`Secret storage is not available to resolve "${itemPath}"`);
+        }
+
+        const value = await this.secretStorage.get(DebugConfigTreeDataProvider.SECRET_KEY_PREFIX + item.secretId);
+        if (value === undefined) {
+            throw new Error(`Secret value for "${itemPath}" is not set. Use "Set Value" to enter it.`);
+        }
+
+        return value;
+    }
+
+    /**
+     * Write a secret value to secret storage
+     * @param secretId The id of the secret
+     * @param secretValue The secret value
+     */
+    private async storeSecret(secretId: string, secretValue: string): Promise<void> {
+        if (!this.secretStorage) {
+            throw new Error('Secret storage is not available');
+        }
+
+        await this.secretStorage.store(DebugConfigTreeDataProvider.SECRET_KEY_PREFIX + secretId, secretValue);
+    }
+
+    /**
+     * Delete secrets from secret storage unless the tree, the undo history or a snapshot still refers to them
+     * Secrets of removed leaves are kept while the removal can be undone or restored, and deleted once it drops out of
+     * the history and the snapshots; user layer secrets are in neither, so they are deleted right away
+     * Failures are logged rather than thrown since the tree has already been updated
+     * @param secretIds The ids of the secrets that are no longer needed by the edit
+     */
+    private async releaseSecrets(secretIds: string[]): Promise<void> {
+        if (!this.secretStorage || secretIds.length === 0) {
+            return;
+        }
+
+        const referencedIds = new Set<string>();
+        for (const layer of TREE_LAYERS) {
+            collectSecretIds(this.serializeLayer(this.rootItems, layer), referencedIds);
+        }
+        for (const state of [...this.history.states, ...this.snapshots.getStates()]) {
+            collectSecretIds(state.workspace, referencedIds);
+            collectSecretIds(state.local, referencedIds);
+        }
+
+        for (const secretId of secretIds.filter(secretId => !referencedIds.has(secretId))) {
+            try {
+                await this.secretStorage.delete(DebugConfigTreeDataProvider.SECRET_KEY_PREFIX + secretId);
+            } catch (error) {
+                console.error('Failed to delete secret:', error);
+            }
+        }
+    }
+
+    /**
+     * Collect all secret leaves in the given items and their descendants
+     * @param items The items to search
+     * @param pathPrefix The path of the items' parent
+     * @returns The secret leaves with their paths
+     */
+    private collectSecretLeaves(items: DebugConfigTreeItem[], pathPrefix: string = ''): Array<{ path: string, item: DebugConfigTreeItem }> {
+        const secrets: Array<{ path: string, item: DebugConfigTreeItem }> = [];
+
+        for (const item of items) {
+            const currentPath = pathPrefix ? `${pathPrefix}.${getItemLabel(item)}` : getItemLabel(item);
+            if (item.kind === 'secret') {
+                secrets.push({ path: currentPath.toLowerCase(), item });
+            }
+            if (item.children && item.children.length > 0) {
+                secrets.push(...this.collectSecretLeaves(item.children, currentPath));
+            }
+            // Definitions in other layers share the item's path
+            if (item.shadows.length > 0) {
+                secrets.push(...this.collectSecretLeaves(item.shadows, pathPrefix));
+            }
+        }
+
+        return secrets;
+    }
+
+    /**
+     * Get the root items of the tree
+     * @returns Array of root items
+     */
+    getRootItems(): DebugConfigTreeItem[] {
+        return this.rootItems;
+    }
+
+    /**
+     * Get the dotted, lowercased path of an item in the tree
+     * @param item The item to locate
+     * @returns The path (e.g., "environment.development"), or undefined if the item is not in the tree
+     */
+    getItemPath(item: DebugConfigTreeItem): string | undefined {
+        const search = (items: DebugConfigTreeItem[], pathPrefix: string): string | undefined => {
+            for (const current of items) {
+                const currentPath = pathPrefix ? `${pathPrefix}.${getItemLabel(current)}` : getItemLabel(current);
+                if (current === item) {
+                    return currentPath.toLowerCase();
+                }
+                const found = search(current.effectiveChildren, currentPath);
+                if (found) {
+                    return found;
+                }
+            }
+            return undefined;
+        };
+
+        return search(this.rootItems, '');
+    }
+
+    /**
+     * Get every item in the tree, including inherited items, along with its dotted, lowercased path
+     * @returns Array of items in tree order (parents before their children)
+     */
+    getAllItemsWithPaths(): Array<{ path: string, item: DebugConfigTreeItem }> {
+        const result: Array<{ path: string, item: DebugConfigTreeItem }> = [];
+
+        const traverseItems = (items: DebugConfigTreeItem[], pathPrefix: string = '') => {
+            for (const item of items) {
+                const currentPath = pathPrefix ? `${pathPrefix}.${getItemLabel(item)}` : getItemLabel(item);
+                result.push({ path: currentPath.toLowerCase(), item });
+                traverseItems(item.effectiveChildren, currentPath);
+            }
+        };
+
+        traverseItems(this.rootItems);
+        return result;
+    }
+
+    /**
+     * Find an item by its dotted path (case-insensitive), including inherited items
+     * @param itemPath The dotted path (e.g., "environment.development.port")
+     * @returns The item, or undefined if no item exists at that path
+     */
+    findItemByPath(itemPath: string): DebugConfigTreeItem | undefined {
+        let currentItems: DebugConfigTreeItem[] | undefined = this.rootItems;
+        let currentItem: DebugConfigTreeItem | undefined;
+
+        for (const part of itemPath.split('.')) {
+            if (!currentItems) {
+                return undefined;
+            }
+            currentItem = currentItems.find(item => getItemLabel(item).toLowerCase() === part.toLowerCase());
+            if (!currentItem) {
+                return undefined;
+            }
+            currentItems = currentItem.effectiveChildren;
+        }
+
+        return currentItem;
+    }
+
+    /**
+     * Expand a profile-relative path (e.g. "@profile.port") against the active profile
+     * Paths without the profile prefix are returned unchanged
+     * @param itemPath The path to expand
+     * @returns The absolute dotted path
+     */
+    expandProfilePath(itemPath: string): string {
+        const prefix = PROFILE_PATH_PREFIX.toLowerCase();
+        const lowerPath = itemPath.toLowerCase();
+        if (lowerPath !== prefix && !lowerPath.startsWith(`${prefix}.`)) {
+            return itemPath;
+        }
+
+        const activeProfile = this.getActiveProfilePath();
+        if (!activeProfile) {
+            throw new Error(`Path "${itemPath}" is relative to the active profile, but no profile is active`);
+        }
+
+        return activeProfile + itemPath.substring(PROFILE_PATH_PREFIX.length);
+    }
+
+    /**
+     * Resolve a dotted path to the value of the leaf node it points at
+     * Supports profile-relative paths (e.g. "@profile.port"), expands "${ref:path}" references recursively
+     * and reads secret leaves from secret storage
+     * @param itemPath The dotted path (e.g., "environment.development.port")
+     * @param quiet true to resolve without user interaction, for values applied in the background: choices use their
+     * last choice or default, and computed values reuse their last output; commands are never run, so a computed value
+     * that has not run yet cannot be resolved
+     * @returns The leaf value with all references expanded
+     */
+    async resolvePath(itemPath: string, quiet: boolean = false): Promise<string> {
+        return this.resolvePathWithStack(itemPath, [], quiet);
+    }
+
+    /**
+     * Resolve a dotted path to the native form of the leaf value it points at
+     * Numbers, booleans and JSON values are converted according to the leaf's type
+     * @param itemPath The dotted path (e.g., "environment.development.port")
+     * @param quiet true to resolve without user interaction (see resolvePath)
+     * @returns The native leaf value
+     */
+    async resolveNativePath(itemPath: string, quiet: boolean = false): Promise<LeafValue> {
+        const text = await this.resolvePath(itemPath, quiet);
+        const item = this.findItemByPath(this.expandProfilePath(itemPath));
+        const valueType = item?.valueType ?? 'string';
+
+        try {
+            return parseLeafValue(text, valueType);
+        } catch (error) {
+            throw new Error(`Path "${itemPath}" has an invalid ${valueType} value: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Resolve a dotted path for display in the tree, without reading secret storage
+     * Secret values are replaced by a mask
+     * @param itemPath The dotted path to preview
+     * @returns The leaf value with all references expanded
+     */
+    previewPath(itemPath: string): string {
+        return this.previewPathWithStack(itemPath, []);
+    }
+
+    /**
+     * Resolve a path while tracking the chain of references that led to it
+     * @param itemPath The dotted path to resolve
+     * @param referenceStack Absolute paths of the leaves currently being expanded, outermost first
+     * @param quiet true to resolve without user interaction
+     */
+    private async resolvePathWithStack(itemPath: string, referenceStack: string[], quiet: boolean = false): Promise<string> {
+        const { item, normalizedPath } = this.findLeafForResolve(itemPath, referenceStack);
+
+        // Secret values are returned literally, never expanded
+        if (item.kind === 'secret') {
+            return this.getSecretValue(item, normalizedPath);
+        }
+
+        const nextStack = [...referenceStack, normalizedPath];
+
+        // Computed values are the output of their command, which is expanded first but whose output is not
+        if (item.kind === 'computed') {
+            return this.runComputed(item, normalizedPath, nextStack, false, quiet);
+        }
+
+        // Choice values are picked by the user, then expanded like any other value
+        let value = item.value as string;
+        if (item.kind === 'choice') {
+            value = quiet ? item.lastChoice ?? value : await this.promptForChoice(item, normalizedPath);
+        }
+        return this.expandText(value, normalizedPath, nextStack, quiet);
+    }
+
+    /**
+     * Expand references, variables and escapes in a text
+     * @param text The text to expand
+     * @param itemPath The path of the leaf the text belongs to, used in error messages
+     * @param referenceStack Absolute paths of the leaves currently being expanded, including this one
+     * @param quiet true to resolve references without user interaction
+     */
+    private async expandText(text: string, itemPath: string, referenceStack: string[], quiet: boolean = false): Promise<string> {
+        let result = '';
+        let lastIndex = 0;
+        for (const match of text.matchAll(EXPANSION_PATTERN)) {
+            const expanded = match[1] === 'ref'
+                ? await this.resolvePathWithStack(this.getReferencePath(match, itemPath), referenceStack, quiet)
+                : this.expandNonReference(match, itemPath);
+            result += text.substring(lastIndex, match.index) + expanded;
+            lastIndex = (match.index as number) + match[0].length;
+        }
+        return result + text.substring(lastIndex);
+    }
+
+    /**
+     * Run the command of a computed leaf now, record its output and refresh the tree
+     * The cache is bypassed
+     * @param item The computed leaf
+     * @returns The trimmed output of the command
+     */
+    async runComputedItem(item: DebugConfigTreeItem): Promise<string> {
+        const itemPath = this.getItemPath(item);
+        if (!itemPath || item.kind !== 'computed') {
+            throw new Error(`"${item.label}" is not a computed value`);
+        }
+
+        return this.runComputed(item, itemPath, [itemPath], true);
+    }
+
+    /**
+     * Run the command of a computed leaf, reusing the cached output while it is fresh
+     * @param item The computed leaf
+     * @param itemPath The path of the leaf, used in error messages
+     * @param referenceStack Absolute paths of the leaves currently being expanded, including this one
+     * @param bypassCache true to always run the command
+     * @param quiet true to reuse the last output whatever its age and never run the command; fails if there is no output yet
+     * @returns The trimmed output of the command
+     */
+    private async runComputed(item: DebugConfigTreeItem, itemPath: string, referenceStack: string[], bypassCache: boolean = false, quiet: boolean = false): Promise<string> {
+        const options = item.computed ?? {};
+        const lastRun = item.computedOutput;
+        if (!bypassCache && lastRun && (quiet || (options.cacheTtlSeconds && Date.now() - lastRun.ranAt < options.cacheTtlSeconds * 1000))) {
+            return lastRun.output;
+        }
+        // Values resolved in the background must not run commands nobody asked for (e.g. after pulling a changed storage file)
+        if (quiet) {
+            throw new Error(`Computed value "${itemPath}" has not run yet; use Run Now or start a launch that uses it`);
+        }
+
+        const command = await this.expandText(item.value as string, itemPath, referenceStack);
+        const cwd = options.cwd !== undefined
+            ? await this.expandText(options.cwd, itemPath, referenceStack)
+            : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const timeout = vscode.workspace.getConfiguration('debugConfigs').get<number>('computedValueTimeout', 10000);
+
+        const startedAt = Date.now();
+        const output = await new Promise<string>((resolve, reject) => {
+            exec(command, { cwd, timeout }, (error, stdout, stderr) => {
+                if (error) {
+                    // A process is also killed when its output exceeds maxBuffer, or by someone else
+                    let reason: string;
+                    if ((error.code as unknown) === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+                        reason = 'produced too much output';
+                    } else if (error.killed && timeout > 0 && Date.now() - startedAt >= timeout) {
+                        reason = `timed out after ${timeout} ms`;
+                    } else if (error.signal) {
+                        reason = `was stopped by ${error.signal}`;
+                    } else {
+                        reason = `failed with exit code ${error.code}${stderr.trim() ? `: ${stderr.trim()}` : ''}`;
+                    }
+                    reject(new Error(`Command for "${itemPath}" ${reason}`));
+                    return;
+                }
+                resolve(stdout.trim());
+            });
+        });
+
+        item.setComputedOutput(output);
+        this.refresh();
+        return output;
+    }
+
+    /**
+     * Get the path of a "${ref:path}" expansion match
+     * @param match The match of the expansion pattern
+     * @param itemPath The path of the leaf containing the reference, used in error messages
+     */
+    private getReferencePath(match: RegExpMatchArray, itemPath: string): string {
+        const referencePath = match[2]?.trim();
+        if (!referencePath) {
+            throw new Error(`Reference "${match[0]}" in "${itemPath}" is missing a path`);
+        }
+        return referencePath;
+    }
+
+    /**
+     * Expand an escape or variable match (anything but a reference)
+     * @param match The match of the expansion pattern
+     * @param itemPath The path of the leaf containing the variable, used in error messages
+     */
+    private expandNonReference(match: RegExpMatchArray, itemPath: string): string {
+        // "$${" is an escaped literal "${"
+        if (match[1] === undefined) {
+            return '${';
+        }
+
+        try {
+            return expandVariable(match[1], match[2]);
+        } catch (error) {
+            throw new Error(`Cannot expand "${match[0]}" in "${itemPath}": ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Ask the user to pick one of the options of a choice leaf
+     * The last choice (or the default) is offered first and the pick is remembered
+     * @param item The choice leaf
+     * @param itemPath The path of the leaf, shown in the picker
+     * @returns The picked option
+     */
+    private async promptForChoice(item: DebugConfigTreeItem, itemPath: string): Promise<string> {
+        const options = item.options ?? [];
+        const preselected = item.lastChoice ?? item.value as string;
+        const ordered = [preselected, ...options.filter(option => option !== preselected)];
+
+        const picked = await vscode.window.showQuickPick(
+            ordered.map(option => ({
+                label: option,
+                description: option === item.lastChoice ? 'last used' : option === item.value ? 'default' : undefined
+            })),
+            {
+                placeHolder: `Select a value for "${itemPath}"`,
+                ignoreFocusOut: true
+            }
+        );
+
+        if (!picked) {
+            throw new ResolveCancelledError(itemPath);
+        }
+
+        if (picked.label !== item.lastChoice) {
+            item.setLastChoice(picked.label);
+            this.refresh();
+            this.saveTreeState();
+        }
+
+        return picked.label;
+    }
+
+    /**
+     * Preview a path while tracking the chain of references that led to it
+     * @param itemPath The dotted path to preview
+     * @param referenceStack Absolute paths of the leaves currently being expanded, outermost first
+     */
+    private previewPathWithStack(itemPath: string, referenceStack: string[]): string {
+        const { item, normalizedPath } = this.findLeafForResolve(itemPath, referenceStack);
+
+        if (item.kind === 'secret') {
+            return SECRET_MASK;
+        }
+
+        // Computed values preview their last output without running the command
+        if (item.kind === 'computed') {
+            return item.computedOutput?.output ?? `$(${item.value})`;
+        }
+
+        // Choices preview the option that will be pre-selected
+        const value = item.kind === 'choice' ? item.lastChoice ?? item.value as string : item.value as string;
+
+        const nextStack = [...referenceStack, normalizedPath];
+        let result = '';
+        let lastIndex = 0;
+        for (const match of value.matchAll(EXPANSION_PATTERN)) {
+            const expanded = match[1] === 'ref'
+                ? this.previewPathWithStack(this.getReferencePath(match, normalizedPath), nextStack)
+                : this.expandNonReference(match, normalizedPath);
+            result += value.substring(lastIndex, match.index) + expanded;
+            lastIndex = (match.index as number) + match[0].length;
+        }
+        return result + value.substring(lastIndex);
+    }
+
+    /**
+     * Find the leaf a path points at, throwing descriptive errors for missing paths, parent nodes and reference cycles
+     * @param itemPath The dotted path to find
+     * @param referenceStack Absolute paths of the leaves currently being expanded, outermost first
+     * @returns The leaf item and its normalized absolute path
+     */
+    private findLeafForResolve(itemPath: string, referenceStack: string[]): { item: DebugConfigTreeItem, normalizedPath: string } {
+        const referencedFrom = referenceStack.length > 0 ? ` (referenced from "${referenceStack[referenceStack.length - 1]}")` : '';
+        const absolutePath = this.expandProfilePath(itemPath);
+        const pathParts = absolutePath.split('.');
+        let currentItems = this.rootItems;
+        let currentItem: DebugConfigTreeItem | undefined;
+
+        // Navigate through the tree using the dotted path
+        for (let i = 0; i < pathParts.length; i++) {
+            const part = pathParts[i];
+            currentItem = currentItems.find(item => getItemLabel(item).toLowerCase() === part.toLowerCase());
+
+            if (!currentItem) {
+                throw new Error(`Path "${itemPath}" not found: "${part}" does not exist${referencedFrom}`);
+            }
+
+            // If this is not the last part, we need to go deeper
+            if (i < pathParts.length - 1) {
+                currentItems = currentItem.effectiveChildren;
+                if (currentItems.length === 0) {
+                    throw new Error(`Path "${itemPath}" not found: "${part}" has no children${referencedFrom}`);
+                }
+            }
+        }
+
+        // At this point, currentItem should be our target
+        if (!currentItem) {
+            throw new Error(`Path "${itemPath}" not found${referencedFrom}`);
+        }
+
+        // Check if this is a leaf node (has a value)
+        if (currentItem.value === undefined) {
+            throw new Error(`Path "${itemPath}" does not point to a leaf node with a value${referencedFrom}`);
+        }
+
+        // Detect reference cycles before expanding this leaf's own references
+        const normalizedPath = absolutePath.toLowerCase();
+        if (referenceStack.includes(normalizedPath)) {
+            throw new Error(`Reference cycle detected: ${[...referenceStack, normalizedPath].join(' -> ')}`);
+        }
+
+        // Inherited leaves resolve through their definition, which holds choice and computed state
+        return { item: currentItem.inheritedFrom ?? currentItem, normalizedPath };
+    }
+
+    /**
+     * Recompute the resolved display value of every leaf that contains references or variables
+     */
+    private updateResolvedValues(): void {
+        const traverseItems = (items: DebugConfigTreeItem[], pathPrefix: string = '') => {
+            for (const item of items) {
+                const currentPath = pathPrefix ? `${pathPrefix}.${getItemLabel(item)}` : getItemLabel(item);
+
+                if (item.kind === 'value' && item.value !== undefined && containsExpansions(item.value)) {
+                    try {
+                        item.setResolvedValue(this.previewPath(currentPath));
+                    } catch (error) {
+                        item.setResolvedValue(undefined, error instanceof Error ? error.message : String(error));
+                    }
+                } else if (item.value !== undefined) {
+                    item.setResolvedValue();
+                }
+
+                traverseItems(item.effectiveChildren, currentPath);
+            }
+        };
+
+        traverseItems(this.rootItems);
+    }
+
+    /**
+     * Mark or unmark an item as a profile
+     * Unmarking the active profile clears the active profile
+     * @param item The parent item to mark
+     * @param isProfile true to mark the item as a profile
+     */
+    setItemProfile(item: DebugConfigTreeItem, isProfile: boolean): void {
+        item.setProfile(isProfile);
+
+        if (!isProfile && this.activeProfilePath && this.getItemPath(item) === this.activeProfilePath) {
+            this.setActiveProfile(undefined);
+        }
+
+        this.refresh();
+        this.saveTreeState(`${isProfile ? 'Mark' : 'Unmark'} "${getItemLabel(item)}" as a profile`);
+    }
+
+    /**
+     * Get all items marked as profiles along with their paths
+     * @returns Array of profiles in tree order
+     */
+    getProfiles(): Array<{ path: string, item: DebugConfigTreeItem }> {
+        const profiles: Array<{ path: string, item: DebugConfigTreeItem }> = [];
+
+        const traverseItems = (items: DebugConfigTreeItem[], pathPrefix: string = '') => {
+            for (const item of items) {
+                const currentPath = pathPrefix ? `${pathPrefix}.${getItemLabel(item)}` : getItemLabel(item);
+                if (item.isProfile) {
+                    profiles.push({ path: currentPath.toLowerCase(), item });
+                }
+                if (item.children && item.children.length > 0) {
+                    traverseItems(item.children, currentPath);
+                }
+            }
+        };
+
+        traverseItems(this.rootItems);
+        return profiles;
+    }
+
+    /**
+     * Get the path of the active profile
+     * @returns The active profile path, or undefined if none is active or it no longer exists
+     */
+    getActiveProfilePath(): string | undefined {
+        if (!this.activeProfilePath) {
+            return undefined;
+        }
+
+        const item = this.findItemByPath(this.activeProfilePath);
+        return item && item.isProfile ? this.activeProfilePath : undefined;
+    }
+
+    /**
+     * Set the active profile and persist it to workspace state
+     * @param profilePath The path of a profile node, or undefined to clear the active profile
+     */
+    async setActiveProfile(profilePath: string | undefined): Promise<void> {
+        if (profilePath !== undefined) {
+            const item = this.findItemByPath(profilePath);
+            if (!item || !item.isProfile) {
+                throw new Error(`Path "${profilePath}" is not a profile`);
+            }
+        }
+
+        this.activeProfilePath = profilePath?.toLowerCase();
+        this.updateActiveProfileDisplay();
+        this.refresh();
+        this._onDidChangeActiveProfile.fire(this.activeProfilePath);
+        await this.saveActiveProfile();
+    }
+
+    /**
+     * Persist the active profile path to workspace state
+     */
+    private async saveActiveProfile(): Promise<void> {
+        if (!this.workspaceState) {
+            return;
+        }
+
+        try {
+            await this.workspaceState.update(DebugConfigTreeDataProvider.ACTIVE_PROFILE_KEY, this.activeProfilePath);
+        } catch (error) {
+            console.error('Failed to save active profile:', error);
+        }
+    }
+
+    /**
+     * Sync the active-profile display flag on every profile item
+     */
+    private updateActiveProfileDisplay(): void {
+        for (const profile of this.getProfiles()) {
+            profile.item.setActiveProfile(profile.path === this.activeProfilePath);
+        }
+    }
+
+    /**
+     * Make a parent extend another node, or stop extending
+     * @param item The parent item
+     * @param basePath The dotted path of the parent to inherit from, or undefined to stop extending
+     */
+    setItemExtends(item: DebugConfigTreeItem, basePath: string | undefined): void {
+        if (item.inheritedFrom) {
+            throw new Error(`Cannot change "${item.label}" because it is inherited. Use "Override Here" first.`);
+        }
+
+        if (basePath !== undefined) {
+            basePath = basePath.trim().toLowerCase();
+            const base = this.findItemByPath(basePath);
+            if (!base || base.value !== undefined) {
+                throw new Error(`Path "${basePath}" is not a parent node`);
+            }
+
+            const itemPath = this.getItemPath(item);
+            if (itemPath && (basePath === itemPath || itemPath.startsWith(`${basePath}.`) || basePath.startsWith(`${itemPath}.`))) {
+                throw new Error(`"${item.label}" cannot extend itself, one of its ancestors or one of its descendants`);
+            }
+        }
+
+        item.setExtends(basePath);
+        this.refresh();
+        this.saveTreeState(`Change what "${getItemLabel(item)}" extends`);
+    }
+
+    /**
+     * Copy an inherited item into the tree at its current position so it can be changed there
+     * Inherited ancestors are created as (empty) parents first, which keep inheriting their other children
+     * @param item The inherited item
+     * @returns The new item
+     */
+    async overrideInheritedItem(item: DebugConfigTreeItem): Promise<DebugConfigTreeItem> {
+        const source = item.inheritedFrom;
+        if (!source) {
+            throw new Error(`"${item.label}" is not inherited`);
+        }
+
+        const ancestors: DebugConfigTreeItem[] = [];
+        for (let parent = this.getParent(item); parent; parent = this.getParent(parent)) {
+            ancestors.unshift(parent);
+        }
+
+        // Root items are never inherited, so the first ancestor is always defined in the tree
+        let owner = ancestors[0];
+        for (const ancestor of ancestors.slice(1)) {
+            if (ancestor.inheritedFrom) {
+                const ownAncestor = new DebugConfigTreeItem(getItemLabel(ancestor), vscode.TreeItemCollapsibleState.Expanded);
+                ownAncestor.setLayer(owner.layer);
+                owner.addChild(ownAncestor);
+                owner = ownAncestor;
+            } else {
+                owner = ancestor;
+            }
+        }
+
+        let copy: DebugConfigTreeItem;
+        if (source.value === undefined) {
+            copy = new DebugConfigTreeItem(getItemLabel(item), vscode.TreeItemCollapsibleState.None);
+        } else {
+            copy = this.deserializeTreeItems(this.serializeTreeItems([source]), owner.layer)[0];
+            copy.setLabel(getItemLabel(item));
+
+            // The copy gets its own secret so the two can change independently
+            if (source.kind === 'secret') {
+                copy.setSecret(randomUUID());
+                const secretValue = this.secretStorage
+                    ? await this.secretStorage.get(DebugConfigTreeDataProvider.SECRET_KEY_PREFIX + source.secretId)
+                    : undefined;
+                if (secretValue !== undefined) {
+                    await this.storeSecret(copy.secretId as string, secretValue);
+                }
+            }
+        }
+        copy.setLayer(owner.layer);
+        owner.addChild(copy);
+
+        this.refresh();
+        this.saveTreeState(`Override "${getItemLabel(item)}"`);
+        return copy;
+    }
+
+    /**
+     * Recompute the children every parent inherits from the nodes it extends, directly or through an extending ancestor
+     * Inherited children are items that mirror their definition; they are reused across refreshes so the view keeps its state
+     */
+    private updateInheritedChildren(): void {
+        const previousItems = this.inheritedItems;
+        this.inheritedItems = new Map();
+        const expanded = new Set<DebugConfigTreeItem>();
+        // Parents matching a parent in a base node inherit the children of that parent too
+        const implicitBases = new Map<DebugConfigTreeItem, Array<{ item: DebugConfigTreeItem, path: string }>>();
+
+        const findBase = (basePath: string, stack: string[]): { item: DebugConfigTreeItem, path: string } => {
+            let items = this.rootItems;
+            let current: { item: DebugConfigTreeItem, path: string } | undefined;
+            for (const part of basePath.toLowerCase().split('.')) {
+                if (current) {
+                    expand(current.item, current.path, stack);
+                    items = current.item.effectiveChildren;
+                }
+                const item = items.find(candidate => getItemLabel(candidate).toLowerCase() === part);
+                if (!item) {
+                    throw new Error(`Path "${basePath}" not found`);
+                }
+                current = { item, path: current ? `${current.path}.${part}` : part };
+            }
+            if (!current || current.item.value !== undefined) {
+                throw new Error(`Path "${basePath}" is not a parent node`);
+            }
+            expand(current.item, current.path, stack);
+            return current;
+        };
+
+        const expand = (node: DebugConfigTreeItem, nodePath: string, stack: string[]): void => {
+            if (expanded.has(node) || node.value !== undefined) {
+                return;
+            }
+            if (stack.includes(nodePath)) {
+                throw new Error(`Inheritance cycle detected: ${[...stack, nodePath].join(' -> ')}`);
+            }
+
+            const nextStack = [...stack, nodePath];
+            const bases = [...(implicitBases.get(node) ?? [])];
+            if (node.extends !== undefined && !node.inheritedFrom) {
+                try {
+                    const base = findBase(node.extends, nextStack);
+                    if (nodePath.startsWith(`${base.path}.`)) {
+                        throw new Error(`"${nodePath}" cannot extend its own ancestor "${base.path}"`);
+                    }
+                    bases.unshift(base);
+                    node.setExtendsError();
+                } catch (error) {
+                    node.setExtendsError(error instanceof Error ? error.message : String(error));
+                }
+            }
+
+            const ownChildren = node.children ?? [];
+            const labels = new Set(ownChildren.map(child => getItemLabel(child).toLowerCase()));
+            const inherited: DebugConfigTreeItem[] = [];
+            for (const base of bases) {
+                try {
+                    expand(base.item, base.path, nextStack);
+                } catch {
+                    continue;
+                }
+
+                for (const child of base.item.effectiveChildren) {
+                    const label = getItemLabel(child).toLowerCase();
+                    const childPath = `${base.path}.${label}`;
+                    const itemPath = `${nodePath}.${label}`;
+
+                    const ownChild = ownChildren.find(candidate => getItemLabel(candidate).toLowerCase() === label);
+                    if (ownChild) {
+                        if (ownChild.value === undefined && child.value === undefined) {
+                            implicitBases.set(ownChild, [...(implicitBases.get(ownChild) ?? []), { item: child, path: childPath }]);
+                        }
+                        continue;
+                    }
+
+                    // A node never inherits a copy of one of its own ancestors, which would repeat forever
+                    const sourcePath = child.inheritedFromPath ?? childPath;
+                    if (labels.has(label) || itemPath.startsWith(`${childPath}.`) || itemPath.startsWith(`${sourcePath}.`)) {
+                        continue;
+                    }
+                    labels.add(label);
+
+                    const inheritedItem = previousItems.get(itemPath) ?? new DebugConfigTreeItem(getItemLabel(child), vscode.TreeItemCollapsibleState.None);
+                    inheritedItem.setInheritedFrom(child.inheritedFrom ?? child, sourcePath);
+                    this.inheritedItems.set(itemPath, inheritedItem);
+                    if (child.value === undefined) {
+                        implicitBases.set(inheritedItem, [{ item: child, path: childPath }]);
+                    }
+                    inherited.push(inheritedItem);
+                }
+            }
+
+            node.setInheritedChildren(inherited);
+            expanded.add(node);
+        };
+
+        const expandAll = (items: DebugConfigTreeItem[], pathPrefix: string) => {
+            for (const item of items) {
+                const itemPath = pathPrefix ? `${pathPrefix}.${getItemLabel(item).toLowerCase()}` : getItemLabel(item).toLowerCase();
+                expand(item, itemPath, []);
+                expandAll(item.effectiveChildren, itemPath);
+            }
+        };
+
+        expandAll(this.rootItems, '');
+    }
+
+    /**
+     * Move an item's definition to another layer (promote or demote it)
+     * For a parent, every leaf in its subtree is moved
+     * A definition already in the target layer is replaced; definitions in other layers are kept
+     * @param item The item to move
+     * @param layer The target layer
+     */
+    moveItemToLayer(item: DebugConfigTreeItem, layer: TreeLayer): void {
+        const replacedSecretIds: string[] = [];
+        this.moveDefinitionToLayer(item, layer, replacedSecretIds);
+
+        this.updateActiveProfileDisplay();
+        this.refresh();
+        this.saveTreeState(`Move "${getItemLabel(item)}" to the ${layer} layer`);
+        this.releaseSecrets(replacedSecretIds);
+    }
+
+    /**
+     * Remove the highest priority definition of a leaf so the definition from the next layer down applies again
+     * @param item The leaf overriding a definition in another layer
      */
-    updateData(newData: DebugConfigTreeItem[]): void {
-        this.rootItems = newData;
+    removeOverride(item: DebugConfigTreeItem): void {
+        if (item.value === undefined || item.shadows.length === 0) {
+            throw new Error(`"${item.label}" does not override a value in another layer`);
+        }
+
+        const secretIds = item.secretId ? [item.secretId] : [];
+        this.replaceItem(item, this.stackDefinitions(item.shadows));
+        item.setShadows([]);
+
+        this.updateActiveProfileDisplay();
         this.refresh();
-        this.saveTreeState();
+        this.saveTreeState(`Remove the override of "${getItemLabel(item)}"`);
+        this.releaseSecrets(secretIds);
     }
 
     /**
-     * Add a child to a specific parent node in the tree
-     * When children are added, the parent's value is automatically set to undefined (constraint enforcement)
+     * Move the definitions of an item and its subtree to another layer
+     * @param item The item to move
+     * @param layer The target layer
+     * @param replacedSecretIds Collects the secrets of definitions that were replaced
      */
-    addChild(parent: DebugConfigTreeItem, child: DebugConfigTreeItem): void {
-        parent.addChild(child);
+    private moveDefinitionToLayer(item: DebugConfigTreeItem, layer: TreeLayer, replacedSecretIds: string[]): void {
+        if (item.value === undefined) {
+            for (const child of [...(item.children ?? [])]) {
+                this.moveDefinitionToLayer(child, layer, replacedSecretIds);
+            }
 
-        // Refresh the tree to show the changes
-        this.refresh();
-        this.saveTreeState();
+            // The parent itself now only lives in the target layer; leaves conflicting with it are dropped
+            replacedSecretIds.push(...this.collectSecretLeaves(item.shadows).map(secret => secret.item.secretId as string));
+            item.setShadows([]);
+            item.setLayer(layer);
+            return;
+        }
+
+        if (item.layer === layer) {
+            return;
+        }
+
+        const replaced = item.shadows.filter(shadow => shadow.layer === layer);
+        replacedSecretIds.push(...this.collectSecretLeaves(replaced).map(secret => secret.item.secretId as string));
+
+        // Moving to a lower layer can let a definition in a layer in between win
+        item.setLayer(layer);
+        this.replaceItem(item, this.stackDefinitions([item, ...item.shadows.filter(shadow => !replaced.includes(shadow))]));
     }
 
     /**
-     * Remove a child from a specific parent node in the tree
-     * @param parent The parent node to remove the child from
-     * @param child The child node to remove
-     * @returns true if the child was found and removed, false otherwise
+     * Build the tree from the serialized items of each layer
+     * @param layers The serialized tree items of each layer; missing layers are empty
+     * @returns The merged root items
      */
-    removeChild(parent: DebugConfigTreeItem, child: DebugConfigTreeItem): boolean {
-        const removed = parent.removeChild(child);
+    private mergeLayers(layers: Partial<Record<TreeLayer, any[]>>): DebugConfigTreeItem[] {
+        const rootItems: DebugConfigTreeItem[] = [];
 
-        if (removed) {
-            // Refresh the tree to show the changes
-            this.refresh();
-            this.saveTreeState();
+        for (const layer of TREE_LAYERS) {
+            for (const item of this.deserializeTreeItems(layers[layer] ?? [], layer)) {
+                this.mergeItem(rootItems, item);
+            }
         }
 
-        return removed;
+        return rootItems;
     }
 
     /**
-     * Remove a root item from the tree
-     * @param item The root item to remove
-     * @returns true if the item was found and removed, false otherwise
+     * Merge an item into siblings that come from lower priority layers
+     * Parents present in both are merged into one node; otherwise the item wins and the sibling becomes its shadow
+     * @param siblings The siblings, updated in place
+     * @param item The item from the higher priority layer
+     * @param parent The parent the siblings belong to, if any
      */
-    removeRootItem(item: DebugConfigTreeItem): boolean {
-        const index = this.rootItems.indexOf(item);
+    private mergeItem(siblings: DebugConfigTreeItem[], item: DebugConfigTreeItem, parent?: DebugConfigTreeItem): void {
+        const label = getItemLabel(item).toLowerCase();
+        const index = siblings.findIndex(sibling => getItemLabel(sibling).toLowerCase() === label);
         if (index === -1) {
-            return false;
+            if (parent && !parent.children) {
+                parent.addChild(item);
+            } else {
+                siblings.push(item);
+            }
+            return;
         }
 
-        this.rootItems.splice(index, 1);
+        const definitions = [siblings[index], ...siblings[index].shadows];
+        const existingParents = this.sortByLayer(definitions).filter(definition => definition.value === undefined);
+        if (item.value === undefined && existingParents.length > 0) {
+            // The children go to the node holding the merged children; the item's layer is remembered with an empty placeholder
+            const mergedParent = existingParents[existingParents.length - 1];
+            if (item.isProfile) {
+                mergedParent.setProfile(true);
+            }
+            if (item.extends !== undefined) {
+                mergedParent.setExtends(item.extends);
+            }
+            for (const child of item.children ?? []) {
+                this.mergeItem(mergedParent.children ?? [], child, mergedParent);
+            }
 
-        // Refresh the tree to show the changes
-        this.refresh();
-        this.saveTreeState();
+            const placeholder = new DebugConfigTreeItem(getItemLabel(item), vscode.TreeItemCollapsibleState.None);
+            placeholder.setLayer(item.layer);
+            siblings[index] = this.stackDefinitions([...definitions, placeholder]);
+            return;
+        }
 
-        return true;
+        siblings[index] = this.stackDefinitions([item, ...definitions]);
     }
 
     /**
-     * Clear the entire tree and make it empty
+     * Pick the definition shown in the tree among the definitions of one path, and record the others as its shadows
+     * The highest priority definition wins; if it is a parent, the node holding the merged children (the lowest layer's parent) represents it
+     * @param definitions The definitions of the path in the different layers
+     * @returns The winning definition
      */
-    clear(): void {
-        this.rootItems = [];
-        this.refresh();
-        this.saveTreeState();
+    private stackDefinitions(definitions: DebugConfigTreeItem[]): DebugConfigTreeItem {
+        const sorted = this.sortByLayer(definitions);
+        const parents = sorted.filter(definition => definition.value === undefined);
+        const winner = sorted[0].value === undefined ? parents[parents.length - 1] : sorted[0];
+
+        sorted.forEach(definition => definition.setShadows([]));
+        winner.setShadows(sorted.filter(definition => definition !== winner));
+        return winner;
     }
 
     /**
-     * Add a new root item to the tree
-     * @param label The label for the new root item
+     * Sort definitions from the highest to the lowest priority layer
      */
-    addRootItem(label: string): void {
-        // Validate that label doesn't contain dots
-        if (label.includes('.')) {
-            throw new Error(`Invalid label "${label}": Labels cannot contain dots (.) as they are used for path navigation`);
-        }
-
-        const newItem = new DebugConfigTreeItem(
-            label,
-            vscode.TreeItemCollapsibleState.None
-        );
-        this.rootItems.push(newItem);
-        this.refresh();
-        this.saveTreeState();
+    private sortByLayer(definitions: DebugConfigTreeItem[]): DebugConfigTreeItem[] {
+        return [...definitions].sort((a, b) => TREE_LAYERS.indexOf(b.layer) - TREE_LAYERS.indexOf(a.layer));
     }
 
     /**
-     * Add a child to a specific item in the tree
-     * @param parent The parent item to add the child to
-     * @param childLabel The label for the new child item
-     * @param childValue Optional value for the new child item (creates leaf node if provided)
+     * Put another node in an item's place in the tree
+     * @param item The item to replace
+     * @param replacement The node to put in its place
      */
-    addChildToItem(parent: DebugConfigTreeItem, childLabel: string, childValue?: string): void {
-        // Validate that label doesn't contain dots
-        if (childLabel.includes('.')) {
-            throw new Error(`Invalid label "${childLabel}": Labels cannot contain dots (.) as they are used for path navigation`);
+    private replaceItem(item: DebugConfigTreeItem, replacement: DebugConfigTreeItem): void {
+        if (replacement === item) {
+            return;
         }
 
-        const newChild = new DebugConfigTreeItem(
-            childLabel,
-            vscode.TreeItemCollapsibleState.None,
-            childValue
-        );
-        parent.addChild(newChild);
-        this.refresh();
-        this.saveTreeState();
+        const parent = this.getParent(item);
+        const siblings = parent ? parent.children ?? [] : this.rootItems;
+        siblings[siblings.indexOf(item)] = replacement;
     }
 
     /**
-     * Remove an item from the tree (works for both root items and child items)
-     * @param item The item to remove
+     * Rebuild the tree with one layer replaced by new serialized items
+     * @param layer The layer to replace
+     * @param treeStateJson The serialized tree items of the layer
+     * @returns The merged root items
      */
-    removeItem(item: DebugConfigTreeItem): void {
-        // First try to remove from root items
-        if (this.removeRootItem(item)) {
-            return;
+    private replaceLayer(layer: TreeLayer, treeStateJson: any[]): DebugConfigTreeItem[] {
+        const layers: Partial<Record<TreeLayer, any[]>> = {};
+        for (const other of TREE_LAYERS) {
+            layers[other] = other === layer ? treeStateJson : this.serializeLayer(this.rootItems, other);
         }
 
-        // If not found in root, search through all items to find the parent
-        this.removeItemRecursively(this.rootItems, item);
+        return this.mergeLayers(layers);
     }
 
     /**
-     * Set the value of a specific item
-     * @param item The item to set the value for
-     * @param value The value to set
+     * Serialize the definitions of one layer
+     * Parents are included wherever the layer defines something below them
+     * @param items The merged items
+     * @param layer The layer to serialize
      */
-    setItemValue(item: DebugConfigTreeItem, value: string): void {
-        item.setValue(value);
-        this.refresh();
-        this.saveTreeState();
+    private serializeLayer(items: DebugConfigTreeItem[], layer: TreeLayer): any[] {
+        const result: any[] = [];
+
+        for (const item of items) {
+            const definitions = [item, ...item.shadows];
+            const parents = definitions.filter(definition => definition.value === undefined);
+            const leaf = definitions.find(definition => definition.value !== undefined && definition.layer === layer);
+            const children = parents.flatMap(parent => this.serializeLayer(parent.children ?? [], layer));
+
+            // Definitions that can no longer win against the item (e.g. after it turned from a leaf into a parent) are dropped
+            const parentRank = Math.max(...parents.map(parent => TREE_LAYERS.indexOf(parent.layer)));
+            const includeParent = children.length > 0 || (item.value === undefined && parents.some(parent => parent.layer === layer));
+            const includeLeaf = leaf !== undefined && (item.value !== undefined || TREE_LAYERS.indexOf(layer) < parentRank);
+
+            if (includeParent) {
+                const holder = item.value === undefined ? item : parents[parents.length - 1];
+                result.push({
+                    label: item.label,
+                    isProfile: holder.isProfile || undefined,
+                    extends: holder.extends,
+                    collapsibleState: holder.collapsibleState,
+                    children: children.length > 0 ? children : undefined
+                });
+            } else if (includeLeaf) {
+                result.push({ ...this.serializeTreeItems([leaf])[0], label: item.label });
+            }
+        }
+
+        return result;
     }
 
     /**
-     * Get the root items of the tree
-     * @returns Array of root items
+     * Get the leaves below a node, including inherited ones, in tree order
+     * A leaf returns just itself
+     * @param item The node
+     * @returns Each leaf with its dotted, lowercased path and its labels from below the node (the leaf's own label for a leaf)
      */
-    getRootItems(): DebugConfigTreeItem[] {
-        return this.rootItems;
+    getLeavesBelow(item: DebugConfigTreeItem): Array<{ path: string, labels: string[], item: DebugConfigTreeItem }> {
+        const itemPath = this.getItemPath(item);
+        if (!itemPath) {
+            throw new Error(`"${item.label}" is not in the tree`);
+        }
+
+        const leaves: Array<{ path: string, labels: string[], item: DebugConfigTreeItem }> = [];
+        const collect = (current: DebugConfigTreeItem, labels: string[], currentPath: string): void => {
+            if (current.value !== undefined) {
+                leaves.push({ path: currentPath, labels, item: current });
+                return;
+            }
+            for (const child of current.effectiveChildren) {
+                collect(child, [...labels, getItemLabel(child)], `${currentPath}.${getItemLabel(child).toLowerCase()}`);
+            }
+        };
+        collect(item, item.value === undefined ? [] : [getItemLabel(item)], itemPath);
+
+        return leaves;
     }
 
     /**
@@ -349,10 +2685,8 @@ export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<Debu
                     });
                 }
 
-                // If this item has children, traverse them recursively
-                if (item.children && item.children.length > 0) {
-                    traverseItems(item.children, currentPath);
-                }
+                // Traverse children recursively, including inherited ones
+                traverseItems(item.effectiveChildren, currentPath);
             }
         };
 
@@ -365,7 +2699,7 @@ export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<Debu
      * @param path The dotted path (e.g., "environment.development.port")
      * @returns A camelCase ID (e.g., "envDevPort")
      */
-    private generateIdFromPath(path: string): string {
+    generateIdFromPath(path: string): string {
         return path.toLowerCase();
     }
 
@@ -381,7 +2715,7 @@ export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<Debu
                 // Check if the item to remove is a direct child
                 if (item.removeChild(itemToRemove)) {
                     this.refresh();
-                    this.saveTreeState();
+                    this.saveTreeState(`Remove "${getItemLabel(itemToRemove)}"`);
                     return true;
                 }
 
@@ -395,16 +2729,196 @@ export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<Debu
     }
 
     /**
-     * Save the current tree state to workspace state as JSON
+     * Describe the edit undo would revert, if any
+     */
+    getUndoLabel(): string | undefined {
+        return this.history.undoLabel;
+    }
+
+    /**
+     * Describe the edit redo would reapply, if any
+     */
+    getRedoLabel(): string | undefined {
+        return this.history.redoLabel;
+    }
+
+    /**
+     * Revert the last edit of the workspace and local layers of the tree
+     * The user layer is shared by every workspace, so its edits are not undone
+     * @returns The label of the undone edit, or undefined if there was nothing to undo
+     */
+    undo(): string | undefined {
+        const entry = this.history.undo(this.serializeLayers());
+        if (entry) {
+            this.restoreLayers(entry.state, `Undo ${entry.label}`);
+        }
+        return entry?.label;
+    }
+
+    /**
+     * Reapply the last undone edit of the tree
+     * @returns The label of the redone edit, or undefined if there was nothing to redo
      */
-    async saveTreeState(): Promise<void> {
+    redo(): string | undefined {
+        const entry = this.history.redo(this.serializeLayers());
+        if (entry) {
+            this.restoreLayers(entry.state, `Redo ${entry.label}`);
+        }
+        return entry?.label;
+    }
+
+    /**
+     * Replace the workspace and local layers of the tree with a state from the undo history and save it, without recording a new edit
+     * The restored tree is still snapshotted
+     * @param state The serialized layers
+     * @param label Describes the undo or redo for the snapshot
+     */
+    private restoreLayers(state: LayeredTreeState, label: string): void {
+        this.replaceLayers(state);
+
+        this.historyBaseline = this.serializeLayers();
+        this.releaseSecretsOf(this.snapshots.add(this.historyBaseline, label));
+        this.saveTreeState();
+    }
+
+    /**
+     * Get the snapshots of the tree, newest first
+     */
+    getSnapshots(): TreeSnapshot[] {
+        return this.snapshots.list();
+    }
+
+    /**
+     * Take a named snapshot of the tree, kept until it is deleted
+     * @param name The name, e.g. "before migration"
+     */
+    createSnapshot(name: string): void {
+        this.releaseSecretsOf(this.snapshots.add(this.serializeLayers(), 'Named snapshot', name));
+    }
+
+    /**
+     * Get the tree state of a snapshot
+     * @param id The snapshot's id
+     * @returns The workspace and local layers, or undefined if the snapshot does not exist
+     */
+    getSnapshotState(id: string): LayeredTreeState | undefined {
+        return this.snapshots.getState(id);
+    }
+
+    /**
+     * Delete a snapshot
+     * @param id The snapshot's id
+     */
+    deleteSnapshot(id: string): void {
+        this.releaseSecretsOf(this.snapshots.delete(id));
+    }
+
+    /**
+     * Restore the workspace and local layers of the tree, or one subtree of them, from a snapshot
+     * The restore is recorded as an edit, so it can be undone
+     * @param id The snapshot's id
+     * @param subtreePath The dotted path of the subtree to restore; the whole tree if omitted
+     */
+    restoreSnapshot(id: string, subtreePath?: string): void {
+        const state = this.snapshots.getState(id);
+        if (!state) {
+            throw new Error('The snapshot no longer exists');
+        }
+
+        const before = this.serializeLayers();
+        this.replaceLayers(subtreePath ? restoreSubtree(before, state, subtreePath.toLowerCase()) : state);
+        this.saveTreeState(subtreePath ? `Restore "${subtreePath}" from a snapshot` : 'Restore a snapshot');
+
+        // Secrets of leaves the restore removed are released like those of any other removal
+        this.releaseSecretsOf([before]);
+    }
+
+    /**
+     * Record the tree as it was before an edit in the undo history, and remember the tree as it is now
+     * Nothing is recorded before the tree is loaded, or when only display state changed
+     * @param label Describes the edit
+     */
+    private recordHistory(label: string): void {
+        const before = this.historyBaseline;
+        const current = this.serializeLayers();
+        this.historyBaseline = current;
+
+        if (before && !sameTreeState(before, current)) {
+            const droppedStates = this.history.record(label, before);
+            droppedStates.push(...this.snapshots.add(current, label));
+            this.releaseSecretsOf(droppedStates);
+        }
+    }
+
+    /**
+     * Release the secrets that tree states dropped from the undo history or the snapshots referred to
+     * @param states The dropped tree states
+     */
+    private releaseSecretsOf(states: LayeredTreeState[]): void {
+        const secretIds = new Set<string>();
+        for (const state of states) {
+            collectSecretIds(state.workspace, secretIds);
+            collectSecretIds(state.local, secretIds);
+        }
+        this.releaseSecrets([...secretIds]);
+    }
+
+    /**
+     * Serialize the workspace and local layers of the tree, which the undo history and snapshots cover
+     */
+    serializeLayers(): LayeredTreeState {
+        return {
+            workspace: this.serializeLayer(this.rootItems, 'workspace'),
+            local: this.serializeLayer(this.rootItems, 'local')
+        };
+    }
+
+    /**
+     * Replace the workspace and local layers of the tree, keeping the user layer as it is
+     * @param state The serialized layers
+     */
+    private replaceLayers(state: LayeredTreeState): void {
+        this.rootItems = this.mergeLayers({ user: this.serializeLayer(this.rootItems, 'user'), workspace: state.workspace, local: state.local });
+        this.updateActiveProfileDisplay();
+        this.refresh();
+        this._onDidChangeActiveProfile.fire(this.getActiveProfilePath());
+    }
+
+    /**
+     * Save the current tree state as JSON
+     * The user layer goes to global state, the local layer to workspace state,
+     * and the workspace layer to the storage file or workspace state
+     * The tree as it was before is recorded in the undo history unless only display state changed
+     * @param historyLabel Describes the edit in the undo history
+     */
+    async saveTreeState(historyLabel: string = 'Edit tree'): Promise<void> {
+        this.recordHistory(historyLabel);
+
+        try {
+            await this.globalState?.update(DebugConfigTreeDataProvider.USER_TREE_STATE_KEY, this.serializeLayer(this.rootItems, 'user'));
+            await this.workspaceState?.update(DebugConfigTreeDataProvider.LOCAL_TREE_STATE_KEY, this.serializeLayer(this.rootItems, 'local'));
+        } catch (error) {
+            console.error('Failed to save user and local tree layers:', error);
+        }
+
+        // A storage file, when configured, replaces workspace state for the workspace layer
+        if (this.fileStorage) {
+            try {
+                await this.fileStorage.save(this.serializeLayer(this.rootItems, 'workspace'));
+            } catch (error) {
+                console.error('Failed to save tree state to file:', error);
+                vscode.window.showErrorMessage(`Failed to save Debug Configs to ${vscode.workspace.asRelativePath(this.fileStorage.uri)}: ${error}`);
+            }
+            return;
+        }
+
         if (!this.workspaceState) {
             console.warn('Workspace state not available for saving tree state');
             return;
         }
 
         try {
-            const treeStateJson = this.serializeTreeItems(this.rootItems);
+            const treeStateJson = this.serializeLayer(this.rootItems, 'workspace');
             await this.workspaceState.update(DebugConfigTreeDataProvider.TREE_STATE_KEY, treeStateJson);
         } catch (error) {
             console.error('Failed to save tree state:', error);
@@ -412,7 +2926,9 @@ export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<Debu
     }
 
     /**
-     * Load the tree state from workspace state JSON
+     * Load the tree state and merge its layers
+     * The workspace layer comes from the storage file if one is configured, otherwise from workspace state JSON;
+     * the user layer comes from global state, and the local layer and the active profile from workspace state
      */
     async loadTreeState(): Promise<void> {
         if (!this.workspaceState) {
@@ -421,23 +2937,95 @@ export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<Debu
         }
 
         try {
-            const treeStateJson = this.workspaceState.get<any[]>(DebugConfigTreeDataProvider.TREE_STATE_KEY);
-            if (treeStateJson) {
-                this.rootItems = this.deserializeTreeItems(treeStateJson);
-                this.refresh();
+            const treeStateJson = this.fileStorage
+                ? await this.fileStorage.load() ?? []
+                : this.workspaceState.get<any[]>(DebugConfigTreeDataProvider.TREE_STATE_KEY);
+            const userTreeStateJson = this.globalState?.get<any[]>(DebugConfigTreeDataProvider.USER_TREE_STATE_KEY);
+            const localTreeStateJson = this.workspaceState.get<any[]>(DebugConfigTreeDataProvider.LOCAL_TREE_STATE_KEY);
+            if (treeStateJson || userTreeStateJson || localTreeStateJson) {
+                this.rootItems = this.mergeLayers({ user: userTreeStateJson, workspace: treeStateJson, local: localTreeStateJson });
             }
+
+            this.activeProfilePath = this.workspaceState.get<string>(DebugConfigTreeDataProvider.ACTIVE_PROFILE_KEY);
+            this.updateActiveProfileDisplay();
+            this.refresh();
+            this.historyBaseline = this.serializeLayers();
+            this.releaseSecretsOf(this.snapshots.add(this.historyBaseline, 'Load tree'));
+            this._onDidChangeActiveProfile.fire(this.getActiveProfilePath());
         } catch (error) {
             console.error('Failed to load tree state:', error);
         }
     }
 
+    /**
+     * Switch between file storage and workspace state storage, then reload the tree from the new storage
+     * @param storage The storage file to use, or undefined to use workspace state
+     */
+    async useFileStorage(storage: TreeStateFileStorage | undefined): Promise<void> {
+        this.fileStorageSubscription?.dispose();
+        this.fileStorage = storage;
+        this.fileStorageSubscription = storage?.onDidChangeExternally(treeState => this.applyExternalTreeState(treeState));
+
+        await this.loadTreeState();
+    }
+
+    /**
+     * Get the storage file backing the tree, if any
+     */
+    getFileStorage(): TreeStateFileStorage | undefined {
+        return this.fileStorage;
+    }
+
+    /**
+     * Write the workspace layer kept in workspace state to a storage file
+     * Used to migrate to file storage; the workspace state copy is left in place, and the user and local layers stay where they are
+     * @param storage The storage file to write
+     * @returns The number of root items written
+     */
+    async migrateWorkspaceStateToFile(storage: TreeStateFileStorage): Promise<number> {
+        // While workspace state is the active storage, the tree in memory is the most recent copy
+        const treeStateJson = this.fileStorage
+            ? this.workspaceState?.get<any[]>(DebugConfigTreeDataProvider.TREE_STATE_KEY) ?? []
+            : this.serializeLayer(this.rootItems, 'workspace');
+
+        await storage.write(treeStateJson);
+        return treeStateJson.length;
+    }
+
+    /**
+     * Replace the workspace layer with state that changed in the storage file outside the extension
+     * @param treeStateJson The serialized tree items read from the file
+     */
+    private applyExternalTreeState(treeStateJson: any[]): void {
+        try {
+            this.rootItems = this.replaceLayer('workspace', treeStateJson);
+            this.updateActiveProfileDisplay();
+            this.refresh();
+            this.recordHistory('Reload the storage file');
+            this._onDidChangeActiveProfile.fire(this.getActiveProfilePath());
+        } catch (error) {
+            console.error('Failed to apply tree state from file:', error);
+            vscode.window.showWarningMessage(`Debug Configs: the storage file could not be loaded: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
     /**
      * Serialize tree items to JSON-compatible format
      */
     private serializeTreeItems(items: DebugConfigTreeItem[]): any[] {
         return items.map(item => ({
             label: item.label,
-            value: item.value,
+            // Secret values never leave secret storage; only their key is serialized
+            value: item.kind === 'secret' ? undefined : item.value,
+            valueType: item.value !== undefined && item.kind !== 'secret' ? item.valueType : undefined,
+            kind: item.kind !== 'value' ? item.kind : undefined,
+            secretId: item.secretId,
+            options: item.options,
+            lastChoice: item.lastChoice,
+            cwd: item.computed?.cwd,
+            cacheTtlSeconds: item.computed?.cacheTtlSeconds,
+            isProfile: item.isProfile || undefined,
+            extends: item.extends,
             collapsibleState: item.collapsibleState,
             children: item.children ? this.serializeTreeItems(item.children) : undefined
         }));
@@ -445,26 +3033,56 @@ export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<Debu
 
     /**
      * Deserialize JSON data back to tree items
+     * @param data The serialized tree items
+     * @param layer The layer the items are defined in
      */
-    private deserializeTreeItems(data: any[]): DebugConfigTreeItem[] {
+    private deserializeTreeItems(data: any[], layer: TreeLayer = 'workspace'): DebugConfigTreeItem[] {
         return data.map(itemData => {
             // Validate that labels don't contain dots
             if (itemData.label && typeof itemData.label === 'string' && itemData.label.includes('.')) {
                 throw new Error(`Invalid label "${itemData.label}": Labels cannot contain dots (.) as they are used for path navigation`);
             }
 
-            const children = itemData.children ? this.deserializeTreeItems(itemData.children) : undefined;
-            return new DebugConfigTreeItem(
+            // Validate the value type (older data has no type and is treated as string)
+            const valueType: LeafValueType = itemData.valueType ?? 'string';
+            if (!LEAF_VALUE_TYPES.includes(valueType)) {
+                throw new Error(`Invalid value type "${itemData.valueType}" for "${itemData.label}"`);
+            }
+
+            const children = itemData.children ? this.deserializeTreeItems(itemData.children, layer) : undefined;
+            const item = new DebugConfigTreeItem(
                 itemData.label,
                 itemData.collapsibleState,
                 itemData.value,
-                children
+                children,
+                valueType
             );
+            if (itemData.kind === 'secret') {
+                // Secret placeholders without a key get a new one; the value is entered separately
+                item.setSecret(typeof itemData.secretId === 'string' ? itemData.secretId : randomUUID());
+            } else if (itemData.kind === 'choice') {
+                if (!Array.isArray(itemData.options) || itemData.options.some((option: unknown) => typeof option !== 'string')) {
+                    throw new Error(`Invalid options for choice "${itemData.label}": Expected an array of strings`);
+                }
+                item.setChoice(itemData.options, itemData.value);
+                item.setLastChoice(itemData.lastChoice);
+            } else if (itemData.kind === 'computed') {
+                item.setComputed(itemData.value ?? '', {
+                    cwd: typeof itemData.cwd === 'string' ? itemData.cwd : undefined,
+                    cacheTtlSeconds: typeof itemData.cacheTtlSeconds === 'number' ? itemData.cacheTtlSeconds : undefined
+                });
+            } else if (itemData.value === undefined) {
+                item.setProfile(itemData.isProfile === true);
+                item.setExtends(typeof itemData.extends === 'string' ? itemData.extends : undefined);
+            }
+            item.setLayer(layer);
+            return item;
         });
     }
 
     /**
-     * Export the current tree state to a file as JSON
+     * Export the workspace layer of the tree to a file as JSON
+     * Secret leaves are exported as placeholders without their values; the user and local layers are not exported
      * @param filePath The absolute path where the JSON file should be written
      */
     async exportTreeStateToFile(filePath: string): Promise<void> {
@@ -475,18 +3093,11 @@ export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<Debu
                 fs.mkdirSync(dir, { recursive: true });
             }
 
-            // Serialize the current tree state
-            const treeStateJson = this.serializeTreeItems(this.rootItems);
+            // Serialize the workspace layer with export metadata and pretty formatting
+            const treeStateJson = this.serializeLayer(this.rootItems, 'workspace');
+            const jsonString = formatTreeStateJson(treeStateJson, new Date());
 
-            // Create the export data with metadata
-            const exportData = {
-                version: '1.0',
-                exportedAt: new Date().toISOString(),
-                treeState: treeStateJson
-            };
-
-            // Write to file with pretty formatting
-            const jsonString = JSON.stringify(exportData, null, 2);
+            // Write to file
             fs.writeFileSync(filePath, jsonString, 'utf8');
 
         } catch (error) {
@@ -496,48 +3107,188 @@ export class DebugConfigTreeDataProvider implements vscode.TreeDataProvider<Debu
     }
 
     /**
-     * Import tree state from a JSON file and replace the current tree
+     * Export the resolved values of a node's leaves as a .env file, a shell script, or nested JSON/YAML
+     * Values are resolved as for a launch: references and variables are expanded, computed values run and choices are prompted for
+     * @param item The node to export; a leaf exports just itself
+     * @param filePath The absolute path of the file to write
+     * @param format The file format
+     * @param naming How flat keys are built from the leaves' paths below the node
+     * @param includeSecrets Whether secret values are read from secret storage and written, or omitted
+     * @returns The number of leaves exported
+     */
+    async exportItemValuesToFile(item: DebugConfigTreeItem, filePath: string, format: ExportFormat, naming: KeyNaming, includeSecrets: boolean): Promise<number> {
+        const itemPath = this.getItemPath(item);
+        if (!itemPath) {
+            throw new Error(`"${item.label}" is not in the tree`);
+        }
+
+        const leaves: ExportedLeaf[] = [];
+        for (const leaf of this.getLeavesBelow(item)) {
+            leaves.push(leaf.item.kind === 'secret' && !includeSecrets
+                ? { labels: leaf.labels }
+                : { labels: leaf.labels, value: await this.resolveNativePath(leaf.path) });
+        }
+
+        const dir = path.dirname(filePath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.writeFileSync(filePath, formatExport(leaves, format, naming, itemPath), 'utf8');
+
+        return leaves.length;
+    }
+
+    /**
+     * Import tree state from a JSON file into the workspace layer of the tree
+     * The user and local layers are kept, so their overrides still apply to the imported items
+     * Merge modes compare the workspace layer with the file by path and only apply the changes the mode
+     * selects and the review accepts
      * @param filePath The absolute path to the JSON file to import
+     * @param promptForSecret Called for each imported secret placeholder whose value is not in secret storage; return undefined to skip it
+     * @param mode How the file is combined with the current tree
+     * @param reviewChanges Called in merge modes with the proposed changes; returns the accepted changes, or undefined to cancel the import
+     * @returns The applied changes, or undefined if the import was cancelled
      */
-    async importTreeStateFromFile(filePath: string): Promise<void> {
+    async importTreeStateFromFile(
+        filePath: string,
+        promptForSecret?: (secretPath: string) => Thenable<string | undefined>,
+        mode: ImportMode = 'replace',
+        reviewChanges?: (changes: TreeStateChange[], mode: ImportMode) => Thenable<TreeStateChange[] | undefined>
+    ): Promise<TreeStateChange[] | undefined> {
         try {
             // Check if file exists
             if (!fs.existsSync(filePath)) {
                 throw new Error(`File not found: ${filePath}`);
             }
 
-            // Read and parse the JSON file
+            // Read and parse the JSON file, validating it before anything is reviewed
             const jsonString = fs.readFileSync(filePath, 'utf8');
-            const importData = JSON.parse(jsonString);
-
-            // Validate the import data structure
-            if (!importData || typeof importData !== 'object') {
-                throw new Error('Invalid JSON format: Expected an object');
+            const importedJson = parseTreeStateJson(jsonString);
+            // Placeholders get their keys here, once, so the diff, the tree and the prompts below all use the same key
+            assignMissingSecretIds(importedJson);
+            const importedSecretIds = new Set<string>();
+            collectSecretIds(importedJson, importedSecretIds);
+
+            const currentJson = this.serializeLayer(this.rootItems, 'workspace');
+            let changes = diffTreeStates(currentJson, importedJson);
+            let treeStateJson = importedJson;
+
+            if (mode !== 'replace') {
+                const proposed = selectChangesForMode(changes, mode);
+                const accepted = proposed.length > 0 && reviewChanges ? await reviewChanges(proposed, mode) : proposed;
+                if (accepted === undefined) {
+                    return undefined;
+                }
+                if (accepted.length === 0) {
+                    return accepted;
+                }
+                changes = accepted;
+                treeStateJson = applyTreeStateChanges(currentJson, importedJson, accepted);
             }
 
-            // Handle both new format (with metadata) and legacy format (direct tree state)
-            let treeStateJson: any[];
-            if (importData.treeState && Array.isArray(importData.treeState)) {
-                // New format with metadata
-                treeStateJson = importData.treeState;
-            } else if (Array.isArray(importData)) {
-                // Legacy format - direct tree state array
-                treeStateJson = importData;
-            } else {
-                throw new Error('Invalid JSON format: Expected tree state data');
+            // Deserialize the tree items and merge them with the other layers
+            const newRootItems = this.replaceLayer('workspace', treeStateJson);
+
+            // Ask for any imported secret values that are not already in secret storage
+            const newSecrets = this.collectSecretLeaves(this.deserializeTreeItems(treeStateJson))
+                .filter(secret => importedSecretIds.has(secret.item.secretId as string));
+            if (promptForSecret && this.secretStorage) {
+                for (const secret of newSecrets) {
+                    const existing = await this.secretStorage.get(DebugConfigTreeDataProvider.SECRET_KEY_PREFIX + secret.item.secretId);
+                    if (existing !== undefined) {
+                        continue;
+                    }
+                    const secretValue = await promptForSecret(secret.path);
+                    if (secretValue !== undefined) {
+                        await this.storeSecret(secret.item.secretId as string, secretValue);
+                    }
+                }
             }
 
-            // Deserialize the tree items
-            const newRootItems = this.deserializeTreeItems(treeStateJson);
+            // Secrets that are no longer referenced by any layer are removed from secret storage
+            const keptSecretIds = new Set(this.collectSecretLeaves(newRootItems).map(secret => secret.item.secretId));
+            const orphanedSecretIds = this.collectSecretLeaves(this.rootItems)
+                .map(secret => secret.item.secretId as string)
+                .filter(secretId => !keptSecretIds.has(secretId));
 
-            // Replace the current tree with the imported data
+            // Replace the current tree with the imported (or merged) data
             this.rootItems = newRootItems;
+            this.updateActiveProfileDisplay();
             this.refresh();
-            this.saveTreeState();
+            this._onDidChangeActiveProfile.fire(this.getActiveProfilePath());
+            this.saveTreeState('Import tree');
+            this.releaseSecrets(orphanedSecretIds);
 
+            return changes;
         } catch (error) {
             console.error('Failed to import tree state from file:', error);
             throw error;
         }
     }
+
+    /**
+     * Merge values imported from a config file (.env, JSON, YAML) into the tree
+     * New nodes are created in the target's layer; existing parents are merged and existing leaves take the imported value
+     * Choice and computed leaves keep their settings, and leaves and parents are never turned into each other
+     * @param treeStateJson The imported values as serialized tree items (see parseConfigFile)
+     * @param parent The parent to merge into, or undefined to merge at the root
+     * @returns How many leaves were added and updated, and what was skipped
+     */
+    async importConfigItems(treeStateJson: any[], parent?: DebugConfigTreeItem): Promise<ConfigImportResult> {
+        if (parent && parent.value !== undefined) {
+            throw new Error(`Cannot import into "${parent.label}" because it is a leaf node with a value`);
+        }
+        if (parent?.inheritedFrom) {
+            throw new Error('Inherited items cannot receive items. Use "Override Here" first.');
+        }
+
+        const result: ConfigImportResult = { added: 0, updated: 0, skipped: [] };
+        const parentPath = parent ? this.getItemPath(parent) ?? '' : '';
+        const imported = this.deserializeTreeItems(treeStateJson, parent?.layer ?? 'workspace');
+        await this.mergeConfigItems(imported, parent, parentPath, result);
+
+        this.refresh();
+        this.saveTreeState('Import values');
+        return result;
+    }
+
+    /**
+     * Merge imported items into the children of a parent (or the root)
+     */
+    private async mergeConfigItems(items: DebugConfigTreeItem[], parent: DebugConfigTreeItem | undefined, pathPrefix: string, result: ConfigImportResult): Promise<void> {
+        for (const item of items) {
+            const siblings = parent ? parent.children ?? [] : this.rootItems;
+            const label = getItemLabel(item).toLowerCase();
+            const itemPath = pathPrefix ? `${pathPrefix}.${label}` : label;
+            const existing = siblings.find(sibling => getItemLabel(sibling).toLowerCase() === label);
+
+            if (!existing) {
+                if (parent) {
+                    parent.addChild(item);
+                } else {
+                    this.rootItems.push(item);
+                }
+                result.added += item.value !== undefined ? 1 : this.countLeaves(item.children ?? []);
+            } else if ((existing.value !== undefined) !== (item.value !== undefined)) {
+                result.skipped.push(`${itemPath}: ${existing.value !== undefined ? 'is a leaf in the tree' : 'is a parent in the tree'}`);
+            } else if (existing.value === undefined) {
+                await this.mergeConfigItems(item.children ?? [], existing, itemPath, result);
+            } else if (existing.kind === 'secret') {
+                await this.storeSecret(existing.secretId as string, item.value as string);
+                result.updated++;
+            } else if (existing.kind !== 'value') {
+                result.skipped.push(`${itemPath}: is a ${existing.kind} value in the tree`);
+            } else if (existing.value !== item.value || existing.valueType !== item.valueType) {
+                existing.setValue(item.value as string, item.valueType);
+                result.updated++;
+            }
+        }
+    }
+
+    /**
+     * Count the leaves in the given items and their descendants
+     */
+    private countLeaves(items: DebugConfigTreeItem[]): number {
+        return items.reduce((count, item) => count + (item.value !== undefined ? 1 : this.countLeaves(item.children ?? [])), 0);
+    }
 }
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { DebugConfigTreeDataProvider, ResolveCancelledError } from './DebugConfigTree';
+
+/**
+ * Pattern matching inline tree variables in debug configurations (e.g. "${debugconfigs:environment.development.port}")
+ */
+export const VARIABLE_PATTERN = /\$\{debugconfigs:([^}]+)\}/g;
+
+/**
+ * Debug configuration provider that substitutes ${debugconfigs:path} variables anywhere in a launch configuration
+ * Uses the same lookup as extension.debugconfigs.replace, so no "inputs" entries are needed
+ */
+export class DebugConfigVariableProvider implements vscode.DebugConfigurationProvider {
+    constructor(private treeDataProvider: DebugConfigTreeDataProvider) { }
+
+    /**
+     * Replace all ${debugconfigs:path} variables after VS Code has substituted its own variables
+     * A string consisting of a single variable is replaced by the native value (number, boolean, JSON),
+     * except inside "env" where debuggers expect strings; variables embedded in longer strings are replaced by their text
+     * If any variable cannot be resolved the launch is cancelled and every failure is reported;
+     * if the user cancels a prompt (e.g. a choice) the launch is cancelled quietly
+     */
+    async resolveDebugConfigurationWithSubstitutedVariables(
+        _folder: vscode.WorkspaceFolder | undefined,
+        debugConfiguration: vscode.DebugConfiguration
+    ): Promise<vscode.DebugConfiguration | undefined> {
+        const errors: string[] = [];
+        let resolved: vscode.DebugConfiguration;
+        try {
+            resolved = await this.substitute(debugConfiguration, errors, true);
+        } catch (error) {
+            if (error instanceof ResolveCancelledError) {
+                return undefined;
+            }
+            throw error;
+        }
+
+        if (errors.length > 0) {
+            vscode.window.showErrorMessage(
+                `Cannot start "${debugConfiguration.name}": ${errors.length} debugconfigs variable(s) could not be resolved`,
+                { modal: true, detail: errors.join('\n') }
+            );
+            return undefined;
+        }
+
+        return resolved;
+    }
+
+    /**
+     * Recursively substitute variables in a configuration value
+     * @param value The value to walk (string, array, object or other JSON value)
+     * @param errors Collects a message for every variable that could not be resolved
+     * @param allowNative Whether a string that is exactly one variable may be replaced by a non-string value
+     * @returns The value with all resolvable variables substituted
+     */
+    private async substitute(value: any, errors: string[], allowNative: boolean): Promise<any> {
+        if (typeof value === 'string') {
+            return this.substituteString(value, errors, allowNative);
+        }
+
+        if (Array.isArray(value)) {
+            const result = [];
+            for (const element of value) {
+                result.push(await this.substitute(element, errors, allowNative));
+            }
+            return result;
+        }
+
+        if (value && typeof value === 'object') {
+            const result: Record<string, any> = {};
+            for (const [key, propertyValue] of Object.entries(value)) {
+                result[key] = await this.substitute(propertyValue, errors, allowNative && key !== 'env');
+            }
+            return result;
+        }
+
+        return value;
+    }
+
+    /**
+     * Substitute variables in a single string
+     */
+    private async substituteString(value: string, errors: string[], allowNative: boolean): Promise<any> {
+        const matches = [...value.matchAll(VARIABLE_PATTERN)];
+        if (matches.length === 0) {
+            return value;
+        }
+
+        // A string that is exactly one variable takes the leaf's native value
+        if (allowNative && matches.length === 1 && matches[0][0] === value) {
+            try {
+                return await this.treeDataProvider.resolveNativePath(matches[0][1].trim());
+            } catch (error) {
+                if (error instanceof ResolveCancelledError) {
+                    throw error;
+                }
+                errors.push(`${matches[0][0]}: ${error instanceof Error ? error.message : error}`);
+                return value;
+            }
+        }
+
+        let result = '';
+        let lastIndex = 0;
+        for (const match of matches) {
+            let replacement = match[0];
+            try {
+                replacement = await this.treeDataProvider.resolvePath(match[1].trim());
+            } catch (error) {
+                if (error instanceof ResolveCancelledError) {
+                    throw error;
+                }
+                errors.push(`${match[0]}: ${error instanceof Error ? error.message : error}`);
+            }
+            result += value.substring(lastIndex, match.index) + replacement;
+            lastIndex = (match.index as number) + match[0].length;
+        }
+        return result + value.substring(lastIndex);
+    }
+}
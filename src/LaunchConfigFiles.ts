@@ -0,0 +1,477 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { PROFILE_PATH_PREFIX, PathChange } from './DebugConfigTree';
+
+/**
+ * Command used by generated inputs to look up tree values
+ */
+export const REPLACE_COMMAND = 'extension.debugconfigs.replace';
+
+/**
+ * A launch.json or tasks.json file in the workspace
+ */
+export interface ConfigFile {
+    uri: vscode.Uri;
+    type: 'launch.json' | 'tasks.json';
+}
+
+/**
+ * An input in a configuration file that uses the replace command
+ * Nodes are jsonc-parser nodes so callers can compute exact offsets for edits
+ */
+export interface ReplaceInput {
+    inputNode: jsonc.Node;
+    idNode?: jsonc.Node;
+    pathNode: jsonc.Node;
+    id?: string;
+    path: string;
+}
+
+/**
+ * A generated input that looks up a tree value with the replace command
+ */
+export interface ReplaceInputDefinition {
+    id: string;
+    type: string;
+    command: string;
+    args: { path: string };
+}
+
+/**
+ * A literal string in a launch or task configuration that can be moved into the tree
+ */
+export interface ConfigLiteral {
+    /** The name (launch.json) or label (tasks.json) of the configuration */
+    configName: string;
+    /** Location of the string inside the configuration, e.g. ["env", "DB_HOST"] or ["args", 2] */
+    location: jsonc.JSONPath;
+    node: jsonc.Node;
+    value: string;
+}
+
+/**
+ * Configuration properties that describe or link configurations rather than hold values for them
+ */
+const STRUCTURAL_PROPERTIES = new Set([
+    'type', 'request', 'name', 'label', 'preLaunchTask', 'postDebugTask', 'dependsOn', 'dependsOrder',
+    'group', 'presentation', 'problemMatcher', 'console', 'internalConsoleOptions', 'runOptions', 'serverReadyAction'
+]);
+
+/**
+ * Find all launch.json and tasks.json files in the workspace
+ * @returns The files, launch.json files first
+ */
+export async function findConfigFiles(): Promise<ConfigFile[]> {
+    const launchFiles = await vscode.workspace.findFiles('**/.vscode/launch.json', '**/node_modules/**');
+    const taskFiles = await vscode.workspace.findFiles('**/.vscode/tasks.json', '**/node_modules/**');
+
+    return [
+        ...launchFiles.map(file => ({ uri: file, type: 'launch.json' as const })),
+        ...taskFiles.map(file => ({ uri: file, type: 'tasks.json' as const }))
+    ];
+}
+
+/**
+ * Check whether a document is a launch.json or tasks.json file
+ */
+export function isConfigDocument(document: vscode.TextDocument): boolean {
+    return /[\\/]\.vscode[\\/](launch|tasks)\.json$/.test(document.uri.path);
+}
+
+/**
+ * Find all inputs using the replace command that have a string "path" argument
+ * @param root The root node of the parsed configuration file
+ * @returns The inputs in document order
+ */
+export function findReplaceInputs(root: jsonc.Node | undefined): ReplaceInput[] {
+    const inputsNode = root ? jsonc.findNodeAtLocation(root, ['inputs']) : undefined;
+    if (!inputsNode || inputsNode.type !== 'array' || !inputsNode.children) {
+        return [];
+    }
+
+    const inputs: ReplaceInput[] = [];
+    for (const inputNode of inputsNode.children) {
+        const commandNode = jsonc.findNodeAtLocation(inputNode, ['command']);
+        const pathNode = jsonc.findNodeAtLocation(inputNode, ['args', 'path']);
+        if (!commandNode || commandNode.value !== REPLACE_COMMAND || !pathNode || pathNode.type !== 'string') {
+            continue;
+        }
+
+        const idNode = jsonc.findNodeAtLocation(inputNode, ['id']);
+        inputs.push({
+            inputNode,
+            idNode: idNode && idNode.type === 'string' ? idNode : undefined,
+            pathNode,
+            id: idNode && idNode.type === 'string' ? idNode.value : undefined,
+            path: pathNode.value
+        });
+    }
+
+    return inputs;
+}
+
+/**
+ * Find the replace input whose path string contains the given position
+ * @param document The configuration document
+ * @param position The position to look at
+ * @returns The input, or undefined if the position is not inside a replace input path
+ */
+export function findReplaceInputAt(document: vscode.TextDocument, position: vscode.Position): ReplaceInput | undefined {
+    const offset = document.offsetAt(position);
+    return findReplaceInputs(jsonc.parseTree(document.getText())).find(input =>
+        offset > input.pathNode.offset && offset < input.pathNode.offset + input.pathNode.length
+    );
+}
+
+/**
+ * Get the document range covered by a jsonc-parser node
+ */
+export function nodeRange(document: vscode.TextDocument, node: jsonc.Node): vscode.Range {
+    return new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+}
+
+/**
+ * Get the document range of the contents of a string node, excluding its quotes
+ */
+export function stringContentRange(document: vscode.TextDocument, node: jsonc.Node): vscode.Range {
+    return new vscode.Range(document.positionAt(node.offset + 1), document.positionAt(node.offset + node.length - 1));
+}
+
+/**
+ * Build a workspace edit that rewrites every replace input whose path passes through a renamed or moved node
+ * Input IDs that were generated from the old path are regenerated, along with their ${input:...} usages
+ * @param changes The nodes whose paths change; their subtrees must not overlap
+ * @param generateId Generates an input ID from a path, the same way generated inputs are named
+ * @param activeProfilePath The dotted path of the active profile, so "@profile..." paths through a node inside it are updated too
+ * @returns The edit (each change needs confirmation, so it can be previewed) and the number of inputs updated
+ */
+export async function buildRenameEdit(changes: PathChange[], generateId: (itemPath: string) => string, activeProfilePath?: string): Promise<{ edit: vscode.WorkspaceEdit, inputCount: number }> {
+    const edit = new vscode.WorkspaceEdit();
+    let inputCount = 0;
+
+    // Inputs may reach a node by its full path or, inside the active profile, relative to the profile;
+    // a node moved out of the profile can only be reached by its full path afterwards
+    const profilePath = activeProfilePath?.toLowerCase();
+    const prefixes: Array<{ from: string, to: string, change: PathChange }> = [];
+    for (const change of changes) {
+        prefixes.push({ from: change.oldPath.toLowerCase(), to: change.newPath, change });
+        if (profilePath && change.oldPath.toLowerCase().startsWith(`${profilePath}.`)) {
+            prefixes.push({
+                from: `${PROFILE_PATH_PREFIX}${change.oldPath.substring(profilePath.length)}`.toLowerCase(),
+                to: change.newPath.toLowerCase().startsWith(`${profilePath}.`)
+                    ? `${PROFILE_PATH_PREFIX}${change.newPath.substring(profilePath.length)}`
+                    : change.newPath,
+                change
+            });
+        }
+    }
+
+    for (const file of await findConfigFiles()) {
+        const document = await vscode.workspace.openTextDocument(file.uri);
+        const text = document.getText();
+        const renamedIds = new Map<string, { newId: string, metadata: vscode.WorkspaceEditEntryMetadata }>();
+        const metadataFor = (change: PathChange): vscode.WorkspaceEditEntryMetadata => ({
+            label: `Rename "${change.oldPath}" to "${change.newPath}"`,
+            description: vscode.workspace.asRelativePath(file.uri),
+            needsConfirmation: true
+        });
+
+        for (const input of findReplaceInputs(jsonc.parseTree(text))) {
+            const lowerPath = input.path.toLowerCase();
+            const prefix = prefixes.find(({ from }) => lowerPath === from || lowerPath.startsWith(`${from}.`));
+            if (!prefix) {
+                continue;
+            }
+
+            const metadata = metadataFor(prefix.change);
+            const updatedPath = prefix.to + input.path.substring(prefix.from.length);
+            edit.replace(file.uri, nodeRange(document, input.pathNode), JSON.stringify(updatedPath), metadata);
+            inputCount++;
+
+            // Only IDs that still match the generated form are regenerated; hand-written IDs are kept
+            if (input.idNode && input.id === generateId(input.path)) {
+                const updatedId = generateId(updatedPath);
+                edit.replace(file.uri, nodeRange(document, input.idNode), JSON.stringify(updatedId), metadata);
+                renamedIds.set(input.id, { newId: updatedId, metadata });
+            }
+        }
+
+        // Rewrite ${input:...} usages (and "// use this:" comments) of regenerated IDs
+        for (const [oldId, { newId, metadata }] of renamedIds) {
+            const usage = `\${input:${oldId}}`;
+            for (let offset = text.indexOf(usage); offset !== -1; offset = text.indexOf(usage, offset + usage.length)) {
+                const range = new vscode.Range(document.positionAt(offset), document.positionAt(offset + usage.length));
+                edit.replace(file.uri, range, `\${input:${newId}}`, metadata);
+            }
+        }
+    }
+
+    return { edit, inputCount };
+}
+
+/**
+ * Find the literal strings in the configurations of a launch.json or tasks.json file
+ * Strings that already contain variables (e.g. ${input:...} or ${workspaceFolder}) and empty strings are left out,
+ * as are structural properties such as "type", "request" and "preLaunchTask"
+ * @param root The root node of the parsed configuration file
+ * @param type Which kind of configuration file it is
+ * @returns The literals in document order
+ */
+export function findConfigLiterals(root: jsonc.Node | undefined, type: ConfigFile['type']): ConfigLiteral[] {
+    const listNode = root ? jsonc.findNodeAtLocation(root, [type === 'launch.json' ? 'configurations' : 'tasks']) : undefined;
+    if (!listNode || listNode.type !== 'array' || !listNode.children) {
+        return [];
+    }
+
+    const literals: ConfigLiteral[] = [];
+    listNode.children.forEach((configNode, index) => {
+        if (configNode.type !== 'object') {
+            return;
+        }
+
+        const nameNode = jsonc.findNodeAtLocation(configNode, [type === 'launch.json' ? 'name' : 'label']);
+        const configName = nameNode && nameNode.type === 'string' ? nameNode.value : `#${index + 1}`;
+
+        for (const property of configNode.children ?? []) {
+            const [keyNode, valueNode] = property.children ?? [];
+            if (keyNode && valueNode && !STRUCTURAL_PROPERTIES.has(keyNode.value)) {
+                collectStringLiterals(valueNode, [keyNode.value], configName, literals);
+            }
+        }
+    });
+
+    return literals;
+}
+
+/**
+ * Collect the literal strings in a configuration value and its nested arrays and objects
+ */
+function collectStringLiterals(node: jsonc.Node, location: jsonc.JSONPath, configName: string, literals: ConfigLiteral[]): void {
+    if (node.type === 'string') {
+        if (node.value !== '' && !node.value.includes('${')) {
+            literals.push({ configName, location, node, value: node.value });
+        }
+    } else if (node.type === 'array') {
+        node.children?.forEach((child, index) => collectStringLiterals(child, [...location, index], configName, literals));
+    } else if (node.type === 'object') {
+        for (const property of node.children ?? []) {
+            const [keyNode, valueNode] = property.children ?? [];
+            if (keyNode && valueNode) {
+                collectStringLiterals(valueNode, [...location, keyNode.value], configName, literals);
+            }
+        }
+    }
+}
+
+/**
+ * Append replace inputs to the "inputs" array of a configuration file, creating the array if needed
+ * Each new input is preceded by a "// use this: ${input:id}" comment
+ * @param content The contents of the configuration file
+ * @param inputs The inputs to add; inputs whose ID already exists in the file are skipped
+ * @returns The updated contents and the inputs that were added
+ */
+export function addReplaceInputs(content: string, inputs: ReplaceInputDefinition[]): { content: string, added: ReplaceInputDefinition[] } {
+    const config = jsonc.parse(content) ?? {};
+
+    // Get existing input IDs to avoid duplicates
+    const existingIds = new Set((config.inputs || []).map((input: any) => input.id));
+    const added = inputs.filter(input => !existingIds.has(input.id));
+    if (added.length === 0) {
+        return { content, added };
+    }
+
+    // Use jsonc-parser to make edits while preserving comments
+    const formattingOptions = { insertSpaces: true, tabSize: 2 };
+    let updatedContent = content;
+
+    if (config.inputs) {
+        // Inputs array exists - add new inputs to it, one at a time since each append is computed from the text before it
+        for (const input of added) {
+            updatedContent = jsonc.applyEdits(updatedContent, jsonc.modify(updatedContent, ['inputs', -1], input, { formattingOptions }));
+        }
+    } else {
+        // No inputs array - create one
+        updatedContent = jsonc.applyEdits(updatedContent, jsonc.modify(updatedContent, ['inputs'], added, { formattingOptions }));
+    }
+
+    // Add comments for new inputs manually (jsonc-parser doesn't handle comments in modifications)
+    for (const input of added) {
+        const inputRegex = new RegExp(`(\\s*)(\\{[^}]*"id"\\s*:\\s*"${input.id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"[^}]*\\})`, 'g');
+        updatedContent = updatedContent.replace(inputRegex, `$1// use this: \${input:${input.id}}\n$1$2`);
+    }
+
+    return { content: updatedContent, added };
+}
+
+/**
+ * Append a launch configuration to the "configurations" array of a launch.json file, creating the array if needed
+ * @param content The contents of the launch.json file
+ * @param configuration The launch configuration to add
+ * @returns The updated contents
+ */
+export function addLaunchConfiguration(content: string, configuration: Record<string, unknown>): string {
+    const config = jsonc.parse(content) ?? {};
+    const formattingOptions = { insertSpaces: true, tabSize: 2 };
+
+    const edits = Array.isArray(config.configurations)
+        ? jsonc.modify(content, ['configurations', -1], configuration, { formattingOptions })
+        : jsonc.modify(content, ['configurations'], [configuration], { formattingOptions });
+
+    return jsonc.applyEdits(content, edits);
+}
+
+/**
+ * Kinds of changes that bring a configuration file's replace inputs in line with the tree
+ * - remove: inputs whose path no longer points at a leaf
+ * - rename: inputs whose ID no longer matches their path (their ${input:...} usages are updated too)
+ * - add: inputs for leaves that have none
+ */
+export type InputSyncChange = 'remove' | 'rename' | 'add';
+
+/**
+ * The changes that sync a configuration file's replace inputs with the tree
+ */
+export interface InputSyncResult {
+    /** The updated contents of the file */
+    content: string;
+    /** Inputs removed because their path does not point at a leaf */
+    removed: Array<{ id?: string, path: string }>;
+    /** Inputs whose ID was regenerated from their path */
+    renamed: Array<{ oldId: string, newId: string }>;
+    /** Inputs added for leaves that had none */
+    added: ReplaceInputDefinition[];
+    /** IDs of removed inputs that the configurations still use */
+    unresolvedUsages: string[];
+}
+
+/**
+ * Sync the replace inputs of a configuration file with the tree
+ * Each kind of change is the same whichever other kinds are applied (stale inputs are never renamed, for instance),
+ * so a report made with every kind describes exactly what applying some of them does
+ * "// use this:" comments follow their inputs: renamed inputs get updated comments, comments of inputs
+ * that no longer exist are removed and added inputs get new ones
+ * @param content The contents of the configuration file
+ * @param options How inputs are checked against the tree, and which kinds of changes are applied
+ * @returns The updated contents along with what changed
+ */
+export function syncReplaceInputs(content: string, options: {
+    /** Whether a path points at a leaf in the tree */
+    pointsAtLeaf: (itemPath: string) => boolean;
+    /** Turns a path as written in an input (e.g. relative to the active profile) into the leaf's full path */
+    expandPath: (itemPath: string) => string;
+    /** Generates an input ID from a path, the same way generated inputs are named */
+    generateId: (itemPath: string) => string;
+    /** Generated inputs for every leaf in the tree */
+    leafInputs: ReplaceInputDefinition[];
+    /** The kinds of changes to apply */
+    changes: InputSyncChange[];
+}): InputSyncResult {
+    let text = content;
+    const root = jsonc.parseTree(text);
+    const inputsNode = root ? jsonc.findNodeAtLocation(root, ['inputs']) : undefined;
+    const inputs = findReplaceInputs(root);
+    const originalIds = new Set((inputsNode?.children ?? []).map(inputNode => jsonc.findNodeAtLocation(inputNode, ['id'])?.value));
+    const allIds = new Set(originalIds);
+
+    const outOfSyncInputs = inputs.filter(input => !options.pointsAtLeaf(input.path));
+    const staleInputs = options.changes.includes('remove') ? outOfSyncInputs : [];
+    const validInputs = inputs.filter(input => !outOfSyncInputs.includes(input));
+
+    // Regenerate IDs first; this only changes values, so the array indices below stay valid
+    const renamed: Array<{ oldId: string, newId: string }> = [];
+    if (options.changes.includes('rename')) {
+        const edits: jsonc.Edit[] = [];
+        for (const input of validInputs) {
+            const newId = options.generateId(input.path);
+            // IDs already taken by another input are left alone
+            if (!input.idNode || input.id === undefined || input.id === newId || allIds.has(newId)) {
+                continue;
+            }
+            edits.push({ offset: input.idNode.offset, length: input.idNode.length, content: JSON.stringify(newId) });
+            renamed.push({ oldId: input.id, newId });
+            allIds.add(newId);
+        }
+        text = jsonc.applyEdits(text, edits);
+
+        // Rewrite ${input:...} usages (and "// use this:" comments) of regenerated IDs
+        for (const { oldId, newId } of renamed) {
+            text = text.split(`\${input:${oldId}}`).join(`\${input:${newId}}`);
+        }
+    }
+
+    // Remove stale inputs, last first so the indices of earlier inputs stay valid
+    const staleIndices = staleInputs
+        .map(input => inputsNode?.children?.indexOf(input.inputNode) ?? -1)
+        .sort((a, b) => b - a);
+    for (const index of staleIndices) {
+        const currentInputsNode = jsonc.findNodeAtLocation(jsonc.parseTree(text) as jsonc.Node, ['inputs']) as jsonc.Node;
+        text = removeArrayElement(text, currentInputsNode, index);
+    }
+
+    // Add inputs for leaves no input points at
+    let added: ReplaceInputDefinition[] = [];
+    if (options.changes.includes('add')) {
+        const coveredPaths = new Set(validInputs.map(input => options.expandPath(input.path).toLowerCase()));
+        // IDs of existing inputs are never reused, even when those inputs are removed
+        ({ content: text, added } = addReplaceInputs(text, options.leafInputs.filter(input =>
+            !coveredPaths.has(input.args.path.toLowerCase()) && !originalIds.has(input.id)
+        )));
+    }
+
+    // Drop comments of inputs that no longer exist
+    const finalRoot = jsonc.parseTree(text);
+    const finalInputsNode = finalRoot ? jsonc.findNodeAtLocation(finalRoot, ['inputs']) : undefined;
+    const finalIds = new Set((finalInputsNode?.children ?? []).map(inputNode => jsonc.findNodeAtLocation(inputNode, ['id'])?.value));
+    text = text.replace(/^[ \t]*\/\/ use this: \$\{input:([^}]*)\}[ \t]*\r?\n(?:[ \t]*\r?\n)?/gm, (line, id: string) => finalIds.has(id) ? line : '');
+
+    const removedIds = staleInputs.map(input => input.id).filter((id): id is string => id !== undefined && !finalIds.has(id));
+    return {
+        content: text,
+        removed: staleInputs.map(input => ({ id: input.id, path: input.path })),
+        renamed,
+        added,
+        unresolvedUsages: [...new Set(removedIds)].filter(id => text.includes(`\${input:${id}}`))
+    };
+}
+
+/**
+ * Remove an element from a JSON array together with its separating comma and the comments before it,
+ * leaving the comments of the other elements in place
+ * @param text The JSON text
+ * @param arrayNode The array node, parsed from the text
+ * @param index The index of the element to remove
+ * @returns The updated text
+ */
+function removeArrayElement(text: string, arrayNode: jsonc.Node, index: number): string {
+    const elements = arrayNode.children ?? [];
+    const element = elements[index];
+    const previousEnd = index > 0 ? elements[index - 1].offset + elements[index - 1].length : undefined;
+    let start: number;
+    let end = element.offset + element.length;
+
+    if (index < elements.length - 1) {
+        // Remove everything after the previous separator (or the opening bracket) up to and including this element's comma
+        start = previousEnd !== undefined ? findSeparator(text, previousEnd) + 1 : arrayNode.offset + 1;
+        end = findSeparator(text, end) + 1;
+    } else {
+        // The last element takes the comma before it
+        start = previousEnd !== undefined ? findSeparator(text, previousEnd) : arrayNode.offset + 1;
+    }
+
+    return text.substring(0, start) + text.substring(end);
+}
+
+/**
+ * Find the comma that follows an array element, skipping whitespace and comments (which may contain commas themselves)
+ * @param text The JSON text
+ * @param offset The offset just after the element
+ * @returns The offset of the comma
+ */
+function findSeparator(text: string, offset: number): number {
+    const scanner = jsonc.createScanner(text, true);
+    scanner.setPosition(offset);
+    if (scanner.scan() !== jsonc.SyntaxKind.CommaToken) {
+        throw new Error(`Expected a comma at offset ${scanner.getTokenOffset()}`);
+    }
+    return scanner.getTokenOffset();
+}
@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import { DebugConfigTreeDataProvider } from './DebugConfigTree';
+import { getConfiguredKeyNaming, toDistinctFlatKeys } from './ConfigFileExport';
+
+/**
+ * Applies the values of a subtree to the environment of new integrated terminals
+ * The values follow the tree: they are resolved again whenever it changes. Resolution never prompts, so choices
+ * use their last choice or default and computed values their last output
+ */
+export class TerminalEnvironment implements vscode.Disposable {
+    private static readonly APPLIED_PATH_KEY = 'debugConfigTerminalEnvironmentPath';
+    private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    /** Fired after the applied values were updated */
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+    private readonly subscriptions: vscode.Disposable[];
+    private _appliedPath?: string;
+    private _appliedCount = 0;
+    private _errors: string[] = [];
+    private running?: Promise<void>;
+    private rerun = false;
+
+    /**
+     * @param treeDataProvider The tree whose values are applied
+     * @param collection The extension's environment variable collection
+     * @param workspaceState Where the applied path is remembered between sessions
+     */
+    constructor(
+        private treeDataProvider: DebugConfigTreeDataProvider,
+        private collection: vscode.GlobalEnvironmentVariableCollection,
+        private workspaceState: vscode.Memento
+    ) {
+        // Values may include secrets, so VS Code must not store them; they are resolved again on startup instead
+        collection.persistent = false;
+        this._appliedPath = workspaceState.get<string>(TerminalEnvironment.APPLIED_PATH_KEY);
+
+        this.subscriptions = [
+            treeDataProvider.onDidChangeTreeData(() => this.update()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('debugConfigs.exportKeySeparator') || event.affectsConfiguration('debugConfigs.exportUppercaseKeys')) {
+                    this.update();
+                }
+            })
+        ];
+
+        this.update();
+    }
+
+    /**
+     * The path of the applied node, if any
+     */
+    get appliedPath(): string | undefined {
+        return this._appliedPath;
+    }
+
+    /**
+     * The number of values currently applied
+     */
+    get appliedCount(): number {
+        return this._appliedCount;
+    }
+
+    /**
+     * Values that could not be resolved in the last update, as "path: reason"
+     */
+    get errors(): string[] {
+        return this._errors;
+    }
+
+    /**
+     * Apply the values below a node, replacing the previously applied node
+     * @param itemPath The dotted path of the node
+     */
+    async apply(itemPath: string): Promise<void> {
+        this._appliedPath = itemPath;
+        await this.workspaceState.update(TerminalEnvironment.APPLIED_PATH_KEY, itemPath);
+        await this.update();
+    }
+
+    /**
+     * Stop applying values to new terminals
+     */
+    async clear(): Promise<void> {
+        this._appliedPath = undefined;
+        await this.workspaceState.update(TerminalEnvironment.APPLIED_PATH_KEY, undefined);
+        await this.update();
+    }
+
+    /**
+     * Follow a node that was renamed, if it is the applied node or one of its ancestors
+     * @param oldPath The path before the rename
+     * @param newPath The path after the rename
+     */
+    async renamePath(oldPath: string, newPath: string): Promise<void> {
+        const appliedPath = this._appliedPath?.toLowerCase();
+        if (appliedPath !== undefined && (appliedPath === oldPath || appliedPath.startsWith(`${oldPath}.`))) {
+            await this.apply(`${newPath}${appliedPath.substring(oldPath.length)}`);
+        }
+    }
+
+    dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this._onDidChange.dispose();
+    }
+
+    /**
+     * Resolve the applied values again
+     * Changes made while an update runs (e.g. computed values recording their output) trigger one more update afterwards
+     * @returns A promise that settles once the values are up to date
+     */
+    private update(): Promise<void> {
+        if (this.running) {
+            this.rerun = true;
+            return this.running;
+        }
+
+        this.running = (async () => {
+            try {
+                do {
+                    this.rerun = false;
+                    await this.applyValues();
+                } while (this.rerun);
+            } finally {
+                this.running = undefined;
+            }
+        })();
+        return this.running;
+    }
+
+    /**
+     * Resolve the leaves below the applied node and replace the collection's variables with them
+     * A missing node, or one that is no longer a parent, applies nothing until it is back
+     */
+    private async applyValues(): Promise<void> {
+        const item = this._appliedPath ? this.treeDataProvider.findItemByPath(this._appliedPath) : undefined;
+        const leaves = item && item.value === undefined ? this.treeDataProvider.getLeavesBelow(item) : [];
+        const keys = toDistinctFlatKeys(leaves.map(leaf => leaf.labels), getConfiguredKeyNaming());
+
+        const values = new Map<string, string>();
+        const errors: string[] = [];
+        for (let i = 0; i < leaves.length; i++) {
+            try {
+                values.set(keys[i], await this.treeDataProvider.resolvePath(leaves[i].path, true));
+            } catch (error) {
+                errors.push(`${leaves[i].path}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        this.collection.clear();
+        values.forEach((value, key) => this.collection.replace(key, value));
+        this.collection.description = this._appliedPath ? `Values from "${this._appliedPath}" in Debug Configurations` : undefined;
+
+        this._appliedCount = values.size;
+        this._errors = errors;
+        this._onDidChange.fire();
+    }
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+
+/**
+ * The serialized items of the layers kept per workspace
+ * The user layer is left out: it is shared by every workspace, so restoring a workspace's copy of it would revert
+ * edits made in other workspaces
+ */
+export interface LayeredTreeState {
+    workspace: any[];
+    local: any[];
+}
+
+/**
+ * An edit that can be undone or redone
+ */
+export interface TreeHistoryEntry {
+    /** Describes the edit, e.g. 'Remove "port"' */
+    label: string;
+    /** The tree to go back to: before the edit for undo, after it for redo */
+    state: LayeredTreeState;
+}
+
+/**
+ * Format a tree state as JSON, leaving out display state such as expanded nodes and the last pick of choices
+ * @param state The tree state
+ * @param indent Indentation for pretty-printing; compact when omitted
+ */
+export function formatTreeState(state: LayeredTreeState, indent?: number): string {
+    const ignored = new Set(['collapsibleState', 'lastChoice']);
+    return JSON.stringify(state, (key: string, value: unknown) => ignored.has(key) ? undefined : value, indent);
+}
+
+/**
+ * Collect the ids of the secrets that serialized tree items refer to
+ * @param nodes The serialized tree items
+ * @param secretIds Receives the ids
+ */
+export function collectSecretIds(nodes: any[], secretIds: Set<string>): void {
+    for (const node of nodes) {
+        if (typeof node.secretId === 'string') {
+            secretIds.add(node.secretId);
+        }
+        collectSecretIds(Array.isArray(node.children) ? node.children : [], secretIds);
+    }
+}
+
+/**
+ * Compare two tree states, ignoring display state
+ */
+export function sameTreeState(a: LayeredTreeState, b: LayeredTreeState): boolean {
+    return formatTreeState(a) === formatTreeState(b);
+}
+
+/**
+ * Undo and redo stacks of tree states, kept in workspace state so they survive reloads
+ * The undo stack is bounded by the debugConfigs.undoLimit setting; the oldest edits are dropped first
+ */
+export class TreeHistory {
+    private static readonly HISTORY_KEY = 'debugConfigUndoHistory';
+    private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    /** Fired when an edit is recorded, undone or redone */
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+    private undoStack: TreeHistoryEntry[];
+    private redoStack: TreeHistoryEntry[];
+
+    /**
+     * @param workspaceState Where the stacks are persisted; without it the history only lasts for the session
+     */
+    constructor(private workspaceState?: vscode.Memento) {
+        const saved = workspaceState?.get<{ undo?: TreeHistoryEntry[], redo?: TreeHistoryEntry[] }>(TreeHistory.HISTORY_KEY);
+        this.undoStack = saved?.undo ?? [];
+        this.redoStack = saved?.redo ?? [];
+    }
+
+    /**
+     * The label of the edit undo would revert, if any
+     */
+    get undoLabel(): string | undefined {
+        return this.undoStack[this.undoStack.length - 1]?.label;
+    }
+
+    /**
+     * The label of the edit redo would reapply, if any
+     */
+    get redoLabel(): string | undefined {
+        return this.redoStack[this.redoStack.length - 1]?.label;
+    }
+
+    /**
+     * Get the tree states of every edit that can be undone or redone
+     */
+    get states(): LayeredTreeState[] {
+        return [...this.undoStack, ...this.redoStack].map(entry => entry.state);
+    }
+
+    /**
+     * Record an edit; redoing earlier undone edits is no longer possible afterwards
+     * @param label Describes the edit
+     * @param before The tree before the edit
+     * @returns The tree states that dropped out of the history: the undone edits and the oldest edits beyond the limit
+     */
+    record(label: string, before: LayeredTreeState): LayeredTreeState[] {
+        this.undoStack.push({ label, state: before });
+        const dropped = this.redoStack;
+        this.redoStack = [];
+
+        const limit = Math.max(1, vscode.workspace.getConfiguration('debugConfigs').get<number>('undoLimit', 50));
+        dropped.push(...this.undoStack.splice(0, Math.max(0, this.undoStack.length - limit)));
+        this.persist();
+        return dropped.map(entry => entry.state);
+    }
+
+    /**
+     * Take the last edit off the undo stack
+     * @param current The tree as it is now, kept so the edit can be redone
+     * @returns The undone edit with the tree to restore, or undefined if there is nothing to undo
+     */
+    undo(current: LayeredTreeState): TreeHistoryEntry | undefined {
+        const entry = this.undoStack.pop();
+        if (entry) {
+            this.redoStack.push({ label: entry.label, state: current });
+            this.persist();
+        }
+        return entry;
+    }
+
+    /**
+     * Take the last undone edit off the redo stack
+     * @param current The tree as it is now, kept so the edit can be undone again
+     * @returns The redone edit with the tree to restore, or undefined if there is nothing to redo
+     */
+    redo(current: LayeredTreeState): TreeHistoryEntry | undefined {
+        const entry = this.redoStack.pop();
+        if (entry) {
+            this.undoStack.push({ label: entry.label, state: current });
+            this.persist();
+        }
+        return entry;
+    }
+
+    /**
+     * Save the stacks to workspace state and notify listeners
+     */
+    private persist(): void {
+        this._onDidChange.fire();
+        this.workspaceState?.update(TreeHistory.HISTORY_KEY, { undo: this.undoStack, redo: this.redoStack })
+            .then(undefined, error => console.error('Failed to save undo history:', error));
+    }
+}
@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { LayeredTreeState, sameTreeState } from './TreeHistory';
+import { applyTreeStateChanges, diffTreeStates } from './TreeStateDiff';
+
+/**
+ * A copy of the tree at one point in time
+ * The tree state itself is stored separately and read with TreeSnapshotStore.getState
+ */
+export interface TreeSnapshot {
+    id: string;
+    /** When the snapshot was taken, in milliseconds since the epoch */
+    timestamp: number;
+    /** The edit that led to the tree, e.g. 'Set "port"' */
+    label: string;
+    /** Set for snapshots taken by hand (e.g. "before migration"), which are kept until deleted */
+    name?: string;
+    /** The paths that differ from the snapshot before it; undefined for the first snapshot */
+    changedPaths?: string[];
+}
+
+/**
+ * The layers of a tree state
+ */
+const LAYERS: Array<keyof LayeredTreeState> = ['workspace', 'local'];
+
+/**
+ * List the paths that differ between two tree states, in any layer
+ * @param before The older state
+ * @param after The newer state
+ * @returns Dotted, lowercased paths of the leaves (and empty parents) that were added, changed or removed
+ */
+export function diffLayeredStates(before: LayeredTreeState, after: LayeredTreeState): string[] {
+    const paths = new Set<string>();
+    for (const layer of LAYERS) {
+        diffTreeStates(before[layer], after[layer]).forEach(change => paths.add(change.path));
+    }
+    return [...paths];
+}
+
+/**
+ * Take the part of the tree at a path from a snapshot, keeping everything else as it is now
+ * Nodes below the path that the snapshot does not have are removed
+ * @param current The tree state now
+ * @param snapshot The snapshot's tree state
+ * @param subtreePath The dotted, lowercased path of the subtree to restore
+ * @returns The restored tree state
+ */
+export function restoreSubtree(current: LayeredTreeState, snapshot: LayeredTreeState, subtreePath: string): LayeredTreeState {
+    const inSubtree = (changePath: string) => changePath === subtreePath || changePath.startsWith(`${subtreePath}.`);
+    const result = {} as LayeredTreeState;
+    for (const layer of LAYERS) {
+        const changes = diffTreeStates(current[layer], snapshot[layer]).filter(change => inSubtree(change.path));
+        result[layer] = applyTreeStateChanges(current[layer], snapshot[layer], changes);
+    }
+    return result;
+}
+
+/**
+ * Snapshots of the workspace and local layers of the tree, kept in workspace state
+ * A snapshot is taken after every edit; the oldest ones beyond the debugConfigs.snapshotLimit setting are dropped,
+ * except named snapshots
+ * Each snapshot's tree state is stored under its own key, so taking a snapshot does not rewrite the others
+ */
+export class TreeSnapshotStore {
+    private static readonly INDEX_KEY = 'debugConfigSnapshotIndex';
+    private static readonly STATE_KEY_PREFIX = 'debugConfigSnapshot.';
+    private snapshots: TreeSnapshot[];
+    /** Tree states when there is no workspace state to keep them in */
+    private readonly sessionStates = new Map<string, LayeredTreeState>();
+
+    /**
+     * @param workspaceState Where snapshots are persisted; without it they only last for the session
+     */
+    constructor(private workspaceState?: vscode.Memento) {
+        this.snapshots = workspaceState?.get<TreeSnapshot[]>(TreeSnapshotStore.INDEX_KEY) ?? [];
+    }
+
+    /**
+     * Get the snapshots, newest first
+     */
+    list(): TreeSnapshot[] {
+        return [...this.snapshots].reverse();
+    }
+
+    /**
+     * Find a snapshot by id
+     */
+    get(id: string): TreeSnapshot | undefined {
+        return this.snapshots.find(snapshot => snapshot.id === id);
+    }
+
+    /**
+     * Read the tree state of a snapshot
+     * @param id The snapshot's id
+     * @returns The tree state, or undefined if the snapshot does not exist
+     */
+    getState(id: string): LayeredTreeState | undefined {
+        return this.workspaceState
+            ? this.workspaceState.get<LayeredTreeState>(TreeSnapshotStore.STATE_KEY_PREFIX + id)
+            : this.sessionStates.get(id);
+    }
+
+    /**
+     * Read the tree states of every snapshot
+     */
+    getStates(): LayeredTreeState[] {
+        return this.snapshots.map(snapshot => this.getState(snapshot.id)).filter((state): state is LayeredTreeState => state !== undefined);
+    }
+
+    /**
+     * Take a snapshot of the tree
+     * Unnamed snapshots equal to the newest snapshot are skipped
+     * @param state The tree state
+     * @param label The edit that led to the tree
+     * @param name A name for snapshots taken by hand
+     * @returns The tree states of the snapshots dropped to stay within the limit
+     */
+    add(state: LayeredTreeState, label: string, name?: string): LayeredTreeState[] {
+        const newest = this.snapshots[this.snapshots.length - 1];
+        const newestState = newest ? this.getState(newest.id) : undefined;
+        if (!name && newestState && sameTreeState(newestState, state)) {
+            return [];
+        }
+
+        const id = randomUUID();
+        this.snapshots.push({ id, timestamp: Date.now(), label, name, changedPaths: newestState ? diffLayeredStates(newestState, state) : undefined });
+        this.storeState(id, state);
+
+        // Drop the oldest unnamed snapshots beyond the limit
+        const limit = Math.max(1, vscode.workspace.getConfiguration('debugConfigs').get<number>('snapshotLimit', 100));
+        let excess = this.snapshots.filter(snapshot => !snapshot.name).length - limit;
+        const dropped = this.snapshots.filter(snapshot => !snapshot.name && excess-- > 0);
+        return this.remove(dropped);
+    }
+
+    /**
+     * Delete a snapshot
+     * @param id The snapshot's id
+     * @returns The tree state of the deleted snapshot, if it existed
+     */
+    delete(id: string): LayeredTreeState[] {
+        return this.remove(this.snapshots.filter(snapshot => snapshot.id === id));
+    }
+
+    /**
+     * Remove snapshots and their tree states, and save the index
+     * @returns The removed tree states
+     */
+    private remove(removed: TreeSnapshot[]): LayeredTreeState[] {
+        const states = removed.map(snapshot => this.getState(snapshot.id)).filter((state): state is LayeredTreeState => state !== undefined);
+        this.snapshots = this.snapshots.filter(snapshot => !removed.includes(snapshot));
+        removed.forEach(snapshot => this.storeState(snapshot.id, undefined));
+        this.workspaceState?.update(TreeSnapshotStore.INDEX_KEY, this.snapshots)
+            .then(undefined, error => console.error('Failed to save tree snapshots:', error));
+        return states;
+    }
+
+    /**
+     * Store or delete the tree state of a snapshot
+     */
+    private storeState(id: string, state: LayeredTreeState | undefined): void {
+        if (!this.workspaceState) {
+            if (state) {
+                this.sessionStates.set(id, state);
+            } else {
+                this.sessionStates.delete(id);
+            }
+            return;
+        }
+
+        this.workspaceState.update(TreeSnapshotStore.STATE_KEY_PREFIX + id, state)
+            .then(undefined, error => console.error('Failed to save tree snapshot:', error));
+    }
+}
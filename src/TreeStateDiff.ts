@@ -0,0 +1,274 @@
+/**
+ * How an imported tree is combined with the current one
+ * - replace: the imported tree replaces the current one
+ * - mergeKeepOurs: only items missing from the current tree are added
+ * - mergeTakeTheirs: missing items are added and differing items take the imported version; nothing is removed
+ * - interactive: every difference, including removals, is offered for review
+ */
+export type ImportMode = 'replace' | 'mergeKeepOurs' | 'mergeTakeTheirs' | 'interactive';
+
+/**
+ * Kinds of differences between two serialized trees
+ * - added: a leaf (or empty parent) only exists in theirs
+ * - changed: a leaf differs, or a parent's profile or extends setting differs
+ * - removed: a leaf (or empty parent) only exists in ours
+ * - conflict: one side has a leaf where the other has a parent
+ */
+export type TreeStateChangeKind = 'added' | 'changed' | 'removed' | 'conflict';
+
+/**
+ * A difference between our serialized tree and theirs at one path
+ */
+export interface TreeStateChange {
+    kind: TreeStateChangeKind;
+    /** Dotted, lowercased path of the node */
+    path: string;
+    /** Our serialized node, if we have one at the path */
+    ours?: any;
+    /** Their serialized node, if they have one at the path */
+    theirs?: any;
+}
+
+/**
+ * Compute the structural differences between two serialized trees, matching nodes by path
+ * @param ours The current serialized tree items
+ * @param theirs The serialized tree items being imported
+ * @returns The differences in tree order
+ */
+export function diffTreeStates(ours: any[], theirs: any[]): TreeStateChange[] {
+    const changes: TreeStateChange[] = [];
+    diffItems(ours, theirs, '', changes);
+    return changes;
+}
+
+/**
+ * Pick the changes an import mode applies
+ * Interactive imports offer every change; the user decides
+ * @param changes All differences between the trees
+ * @param mode The import mode
+ */
+export function selectChangesForMode(changes: TreeStateChange[], mode: ImportMode): TreeStateChange[] {
+    switch (mode) {
+        case 'mergeKeepOurs':
+            return changes.filter(change => change.kind === 'added');
+        case 'mergeTakeTheirs':
+            return changes.filter(change => change.kind !== 'removed');
+        default:
+            return changes;
+    }
+}
+
+/**
+ * Apply accepted changes to our serialized tree
+ * Parents missing on our side are created from their counterparts in theirs
+ * @param ours The current serialized tree items (not modified)
+ * @param theirs The serialized tree items being imported
+ * @param changes The changes to apply
+ * @returns The merged serialized tree items
+ */
+export function applyTreeStateChanges(ours: any[], theirs: any[], changes: TreeStateChange[]): any[] {
+    const result: any[] = clone(ours);
+
+    for (const change of changes) {
+        const parts = change.path.split('.');
+        const label = parts[parts.length - 1];
+
+        if (change.kind === 'removed') {
+            const siblings = findChildren(result, parts.slice(0, -1));
+            const index = siblings?.findIndex(node => labelOf(node) === label) ?? -1;
+            if (siblings && index !== -1) {
+                siblings.splice(index, 1);
+            }
+            continue;
+        }
+
+        const theirNode = findNode(theirs, parts);
+        if (!theirNode) {
+            throw new Error(`Imported tree has no node at "${change.path}"`);
+        }
+
+        const siblings = ensureParents(result, theirs, parts.slice(0, -1));
+        const index = siblings.findIndex(node => labelOf(node) === label);
+        if (change.kind === 'changed' && !isLeaf(theirNode) && index !== -1 && !isLeaf(siblings[index])) {
+            // Parents only differ in their own settings; their children are compared separately
+            siblings[index].isProfile = theirNode.isProfile;
+            siblings[index].extends = theirNode.extends;
+        } else if (index === -1) {
+            siblings.push(clone(theirNode));
+        } else {
+            siblings[index] = clone(theirNode);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Describe a serialized node in a few words for review
+ * Secret values are never part of serialized trees, so they cannot leak here
+ * @param node The serialized node
+ */
+export function describeTreeStateNode(node: any): string {
+    if (!isLeaf(node)) {
+        const leafCount = countLeaves(node.children ?? []);
+        const description = `${node.isProfile ? 'profile' : 'parent'} with ${leafCount} value(s)`;
+        return node.extends ? `${description}, extends ${node.extends}` : description;
+    }
+
+    switch (node.kind) {
+        case 'secret':
+            return 'secret';
+        case 'choice':
+            return `choice of ${node.options?.join(', ')} (default ${node.value})`;
+        case 'computed':
+            return `$ ${node.value}`;
+        default:
+            return node.valueType && node.valueType !== 'string' ? `${node.value} (${node.valueType})` : `"${node.value}"`;
+    }
+}
+
+/**
+ * Compare two lists of sibling nodes and record their differences
+ */
+function diffItems(ours: any[], theirs: any[], pathPrefix: string, changes: TreeStateChange[]): void {
+    for (const theirNode of theirs) {
+        const label = labelOf(theirNode);
+        const itemPath = pathPrefix ? `${pathPrefix}.${label}` : label;
+        const ourNode = ours.find(node => labelOf(node) === label);
+
+        if (!ourNode) {
+            collectLeaves(theirNode, itemPath, 'added', changes);
+        } else if (isLeaf(ourNode) !== isLeaf(theirNode)) {
+            changes.push({ kind: 'conflict', path: itemPath, ours: ourNode, theirs: theirNode });
+        } else if (isLeaf(ourNode)) {
+            if (!sameLeaf(ourNode, theirNode)) {
+                changes.push({ kind: 'changed', path: itemPath, ours: ourNode, theirs: theirNode });
+            }
+        } else {
+            if (Boolean(ourNode.isProfile) !== Boolean(theirNode.isProfile) || (ourNode.extends ?? undefined) !== (theirNode.extends ?? undefined)) {
+                changes.push({ kind: 'changed', path: itemPath, ours: ourNode, theirs: theirNode });
+            }
+            diffItems(ourNode.children ?? [], theirNode.children ?? [], itemPath, changes);
+        }
+    }
+
+    for (const ourNode of ours) {
+        const label = labelOf(ourNode);
+        if (!theirs.some(node => labelOf(node) === label)) {
+            collectLeaves(ourNode, pathPrefix ? `${pathPrefix}.${label}` : label, 'removed', changes);
+        }
+    }
+}
+
+/**
+ * Record every leaf (and empty parent) of a subtree that only exists on one side
+ */
+function collectLeaves(node: any, itemPath: string, kind: 'added' | 'removed', changes: TreeStateChange[]): void {
+    const children: any[] = node.children ?? [];
+    if (isLeaf(node) || children.length === 0) {
+        changes.push(kind === 'added' ? { kind, path: itemPath, theirs: node } : { kind, path: itemPath, ours: node });
+        return;
+    }
+
+    for (const child of children) {
+        collectLeaves(child, `${itemPath}.${labelOf(child)}`, kind, changes);
+    }
+}
+
+/**
+ * Compare the settings of two serialized leaves, ignoring display state such as the last choice
+ * Secret leaves are equal whenever both are secrets, since their values are not serialized
+ */
+function sameLeaf(ours: any, theirs: any): boolean {
+    if (ours.kind === 'secret' || theirs.kind === 'secret') {
+        return ours.kind === theirs.kind;
+    }
+
+    return ours.kind === theirs.kind
+        && ours.value === theirs.value
+        && (ours.valueType ?? 'string') === (theirs.valueType ?? 'string')
+        && JSON.stringify(ours.options) === JSON.stringify(theirs.options)
+        && ours.cwd === theirs.cwd
+        && ours.cacheTtlSeconds === theirs.cacheTtlSeconds;
+}
+
+/**
+ * Find the children of the node at a path, or the root list for an empty path
+ */
+function findChildren(items: any[], parts: string[]): any[] | undefined {
+    let current = items;
+    for (const part of parts) {
+        const node = current.find(candidate => labelOf(candidate) === part);
+        if (!node || isLeaf(node)) {
+            return undefined;
+        }
+        current = node.children ?? [];
+    }
+    return current;
+}
+
+/**
+ * Find the node at a path
+ */
+function findNode(items: any[], parts: string[]): any | undefined {
+    const siblings = findChildren(items, parts.slice(0, -1));
+    return siblings?.find(node => labelOf(node) === parts[parts.length - 1]);
+}
+
+/**
+ * Make sure the parents along a path exist in the result, copying missing ones from theirs without their children
+ * @returns The children list of the last parent (the root list for an empty path)
+ */
+function ensureParents(result: any[], theirs: any[], parts: string[]): any[] {
+    let current = result;
+    for (let i = 0; i < parts.length; i++) {
+        let node = current.find(candidate => labelOf(candidate) === parts[i]);
+        if (!node) {
+            const theirNode = findNode(theirs, parts.slice(0, i + 1));
+            node = { ...withoutChildren(theirNode ?? { label: parts[i] }) };
+            current.push(node);
+        }
+        if (isLeaf(node)) {
+            throw new Error(`Cannot add below "${parts.slice(0, i + 1).join('.')}" because it is a leaf`);
+        }
+        node.children = node.children ?? [];
+        current = node.children;
+    }
+    return current;
+}
+
+/**
+ * Whether a serialized node is a leaf (secret leaves have no serialized value)
+ */
+function isLeaf(node: any): boolean {
+    return node.value !== undefined || node.kind === 'secret';
+}
+
+/**
+ * Count the leaves of a serialized subtree
+ */
+function countLeaves(items: any[]): number {
+    return items.reduce((count, node) => count + (isLeaf(node) ? 1 : countLeaves(node.children ?? [])), 0);
+}
+
+/**
+ * Get the lowercased label of a serialized node, as used in paths
+ */
+function labelOf(node: any): string {
+    return String(node.label).toLowerCase();
+}
+
+/**
+ * Copy a serialized parent without its children
+ */
+function withoutChildren(node: any): any {
+    const { children: _children, ...rest } = node;
+    return rest;
+}
+
+/**
+ * Deep copy serialized tree data
+ */
+function clone<T>(data: T): T {
+    return JSON.parse(JSON.stringify(data));
+}
@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+
+/**
+ * How a save conflict should be resolved
+ * - keepTree: overwrite the file with the tree
+ * - useFile: discard the tree's changes and reload the file
+ */
+export type ConflictResolution = 'keepTree' | 'useFile';
+
+/**
+ * Parse the contents of a tree state file (an export, or the shared storage file)
+ * Accepts both the format with metadata and the legacy bare array format
+ * @param jsonString The file contents
+ * @returns The serialized tree items
+ */
+export function parseTreeStateJson(jsonString: string): any[] {
+    const importData = JSON.parse(jsonString);
+
+    // Validate the import data structure
+    if (!importData || typeof importData !== 'object') {
+        throw new Error('Invalid JSON format: Expected an object');
+    }
+
+    // Handle both new format (with metadata) and legacy format (direct tree state)
+    if (importData.treeState && Array.isArray(importData.treeState)) {
+        // New format with metadata
+        return importData.treeState;
+    } else if (Array.isArray(importData)) {
+        // Legacy format - direct tree state array
+        return importData;
+    }
+
+    throw new Error('Invalid JSON format: Expected tree state data');
+}
+
+/**
+ * Format serialized tree items as the contents of a tree state file
+ * @param treeState The serialized tree items
+ * @param exportedAt Export timestamp to include; omitted for the shared storage file so it only changes when the tree does
+ * @returns Pretty-printed JSON
+ */
+export function formatTreeStateJson(treeState: any[], exportedAt?: Date): string {
+    const data = {
+        version: '1.0',
+        exportedAt: exportedAt?.toISOString(),
+        treeState
+    };
+
+    return JSON.stringify(data, null, 2) + '\n';
+}
+
+/**
+ * Display state of a node that is personal rather than shared: whether it is expanded and the last pick of a choice
+ */
+export interface NodeViewState {
+    collapsibleState?: number;
+    lastChoice?: string;
+}
+
+/**
+ * Take the display state out of serialized tree items
+ * @param treeState The serialized tree items
+ * @returns The items without display state, and the display state keyed by lowercased dotted path
+ */
+export function extractViewState(treeState: any[]): { treeState: any[], viewState: Record<string, NodeViewState> } {
+    const viewState: Record<string, NodeViewState> = {};
+    const strip = (nodes: any[], pathPrefix: string): any[] => nodes.map(node => {
+        const { collapsibleState, lastChoice, ...rest } = node;
+        const nodePath = `${pathPrefix}${String(node.label).toLowerCase()}`;
+        if (collapsibleState !== undefined || lastChoice !== undefined) {
+            viewState[nodePath] = { collapsibleState, lastChoice };
+        }
+        return Array.isArray(node.children) ? { ...rest, children: strip(node.children, `${nodePath}.`) } : rest;
+    });
+
+    return { treeState: strip(treeState, ''), viewState };
+}
+
+/**
+ * Put display state taken out by extractViewState back into serialized tree items
+ * Nodes without saved display state keep whatever the items have
+ * @param treeState The serialized tree items
+ * @param viewState The display state keyed by lowercased dotted path
+ * @returns The items with display state
+ */
+export function applyViewState(treeState: any[], viewState: Record<string, NodeViewState>): any[] {
+    const apply = (nodes: any[], pathPrefix: string): any[] => nodes.map(node => {
+        const nodePath = `${pathPrefix}${String(node.label).toLowerCase()}`;
+        const state = viewState[nodePath];
+        const applied = state ? { ...node, collapsibleState: state.collapsibleState, lastChoice: state.lastChoice } : node;
+        return Array.isArray(node.children) ? { ...applied, children: apply(node.children, `${nodePath}.`) } : applied;
+    });
+
+    return apply(treeState, '');
+}
+
+/**
+ * Stores the tree in a workspace file (e.g. .vscode/debugconfigs.json) so it can be committed and shared
+ * Watches the file for external edits (e.g. git pull) and detects when the file and the tree both changed
+ * Display state (expanded nodes, last choices) is kept in workspace state instead, so it does not churn the shared file
+ */
+export class TreeStateFileStorage implements vscode.Disposable {
+    private static readonly VIEW_STATE_KEY = 'debugConfigFileViewState';
+    private _onDidChangeExternally: vscode.EventEmitter<any[]> = new vscode.EventEmitter<any[]>();
+    /** Fired with the new tree state when the file is changed outside the extension */
+    readonly onDidChangeExternally: vscode.Event<any[]> = this._onDidChangeExternally.event;
+    private readonly watcher: vscode.FileSystemWatcher;
+    private lastSyncedText?: string;
+    /** Settles once every save started so far has finished */
+    private saving: Promise<void> = Promise.resolve();
+    /** Incremented whenever the file's contents replace the tree, so saves of the replaced tree are dropped */
+    private generation = 0;
+
+    /**
+     * @param uri The storage file
+     * @param resolveConflict Asked when saving finds that the file changed since it was last read or written; undefined postpones the decision
+     * @param workspaceState Where display state is kept; without it display state is not saved
+     */
+    constructor(
+        readonly uri: vscode.Uri,
+        private resolveConflict: () => Thenable<ConflictResolution | undefined>,
+        private workspaceState?: vscode.Memento
+    ) {
+        const directory = vscode.Uri.joinPath(uri, '..');
+        const fileName = uri.path.substring(uri.path.lastIndexOf('/') + 1);
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(directory, fileName));
+        // Changes are checked after pending saves, so the file is not read halfway through our own writes
+        this.watcher.onDidChange(() => this.saving.then(() => this.handleExternalChange()));
+        this.watcher.onDidCreate(() => this.saving.then(() => this.handleExternalChange()));
+    }
+
+    /**
+     * Read the tree state from the file
+     * @returns The serialized tree items, or undefined if the file does not exist
+     */
+    async load(): Promise<any[] | undefined> {
+        const text = await this.readText();
+        this.lastSyncedText = text;
+        return text !== undefined ? this.withViewState(parseTreeStateJson(text)) : undefined;
+    }
+
+    /**
+     * Write the tree state to the file
+     * Saves run one at a time in the order they were made, so back-to-back saves don't mistake each other's writes
+     * for external changes; saves made before the file's contents were loaded into the tree are dropped
+     * @param treeState The serialized tree items
+     */
+    save(treeState: any[]): Promise<void> {
+        const generation = this.generation;
+        const result = this.saving.then(() => generation === this.generation ? this.saveNow(treeState) : undefined);
+        this.saving = result.then(undefined, () => undefined);
+        return result;
+    }
+
+    /**
+     * Write the tree state to the file
+     * If the file changed since it was last synced, the conflict is resolved first
+     * @param treeState The serialized tree items
+     */
+    private async saveNow(treeState: any[]): Promise<void> {
+        const text = await this.toSharedText(treeState);
+        const currentText = await this.readText();
+
+        // Nothing shared changed (e.g. a node was expanded)
+        if (currentText === text) {
+            this.lastSyncedText = text;
+            return;
+        }
+
+        if (currentText !== undefined && currentText !== this.lastSyncedText) {
+            const resolution = await this.resolveConflict();
+            if (resolution === 'useFile') {
+                this.applyExternalText(currentText);
+                return;
+            }
+            if (resolution !== 'keepTree') {
+                // Undecided: leave the file alone, the next save asks again
+                return;
+            }
+        }
+
+        await this.writeText(text);
+    }
+
+    /**
+     * Write the tree state to the file without checking for conflicts
+     * @param treeState The serialized tree items
+     */
+    async write(treeState: any[]): Promise<void> {
+        await this.writeText(await this.toSharedText(treeState));
+    }
+
+    /**
+     * Check whether the storage file exists
+     */
+    async exists(): Promise<boolean> {
+        return (await this.readText()) !== undefined;
+    }
+
+    dispose(): void {
+        this.watcher.dispose();
+        this._onDidChangeExternally.dispose();
+    }
+
+    /**
+     * Reload the tree when the file changes on disk, ignoring our own writes
+     */
+    private async handleExternalChange(): Promise<void> {
+        const text = await this.readText();
+        if (text === undefined || text === this.lastSyncedText) {
+            return;
+        }
+
+        this.applyExternalText(text);
+    }
+
+    /**
+     * Parse externally changed file contents and notify listeners
+     * Unparseable contents (e.g. unresolved merge conflict markers) are reported and not applied
+     */
+    private applyExternalText(text: string): void {
+        let treeState: any[];
+        try {
+            treeState = parseTreeStateJson(text);
+        } catch (error) {
+            vscode.window.showWarningMessage(
+                `Debug Configs: ${vscode.workspace.asRelativePath(this.uri)} could not be loaded: ${error instanceof Error ? error.message : error}`
+            );
+            return;
+        }
+
+        this.lastSyncedText = text;
+        this.generation++;
+        this._onDidChangeExternally.fire(this.withViewState(treeState));
+    }
+
+    /**
+     * Save the display state of serialized tree items to workspace state and format the rest as file contents
+     * @param treeState The serialized tree items
+     */
+    private async toSharedText(treeState: any[]): Promise<string> {
+        const { treeState: sharedState, viewState } = extractViewState(treeState);
+        await this.workspaceState?.update(TreeStateFileStorage.VIEW_STATE_KEY, viewState);
+        return formatTreeStateJson(sharedState);
+    }
+
+    /**
+     * Add the saved display state to serialized tree items read from the file
+     */
+    private withViewState(treeState: any[]): any[] {
+        return applyViewState(treeState, this.workspaceState?.get<Record<string, NodeViewState>>(TreeStateFileStorage.VIEW_STATE_KEY) ?? {});
+    }
+
+    /**
+     * Write text to the file, remembering it so the change is not mistaken for an external one
+     */
+    private async writeText(text: string): Promise<void> {
+        this.lastSyncedText = text;
+        await vscode.workspace.fs.writeFile(this.uri, Buffer.from(text, 'utf8'));
+    }
+
+    /**
+     * Read the file as text
+     * @returns The contents, or undefined if the file does not exist
+     */
+    private async readText(): Promise<string | undefined> {
+        try {
+            return Buffer.from(await vscode.workspace.fs.readFile(this.uri)).toString('utf8');
+        } catch (error) {
+            if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+}
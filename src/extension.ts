@@ -1,17 +1,51 @@
 import * as vscode from 'vscode';
-import { DebugConfigTreeDataProvider, DebugConfigTreeItem } from './DebugConfigTree';
+import { ComputedOptions, DebugConfigTreeDataProvider, DebugConfigTreeItem, LEAF_VALUE_TYPES, LeafValueType, PROFILE_PATH_PREFIX, ResolveCancelledError, TREE_LAYERS, TreeLayer, containsExpansions, getItemLabel, validateLeafValue } from './DebugConfigTree';
+import { DebugConfigDragAndDropController } from './DebugConfigDragAndDrop';
+import { DebugConfigLanguageSupport } from './DebugConfigLanguageSupport';
+import { DebugConfigVariableProvider } from './DebugConfigVariableProvider';
+import { DebugConfigTaskProvider, TASK_TYPE } from './DebugConfigTaskProvider';
+import { DebugConfigApi, DebugConfigsApi } from './DebugConfigApi';
+import { ConfigFile, ConfigLiteral, InputSyncChange, REPLACE_COMMAND, ReplaceInputDefinition, addLaunchConfiguration, addReplaceInputs, buildRenameEdit, findConfigFiles, findConfigLiterals, syncReplaceInputs } from './LaunchConfigFiles';
+import { ConflictResolution, TreeStateFileStorage } from './TreeStateFile';
+import { TerminalEnvironment } from './TerminalEnvironment';
+import { ImportMode, TreeStateChange, TreeStateChangeKind, describeTreeStateNode } from './TreeStateDiff';
+import { formatTreeState } from './TreeHistory';
+import { TreeSnapshot, diffLayeredStates } from './TreeSnapshots';
+import { ConfigFileFormat, detectConfigFileFormat, parseConfigFile, sanitizeLabel } from './ConfigFileImport';
+import { ExportFormat, getConfiguredKeyNaming, toDistinctFlatKeys } from './ConfigFileExport';
 import * as jsonc from 'jsonc-parser';
 
-export function activate(context: vscode.ExtensionContext) {
-	// Create and register the tree data provider with workspace state
-	const treeDataProvider = new DebugConfigTreeDataProvider([], context.workspaceState);
+export function activate(context: vscode.ExtensionContext): DebugConfigsApi {
+	// Create and register the tree data provider with workspace state, secret storage and global state (for the user layer)
+	const treeDataProvider = new DebugConfigTreeDataProvider([], context.workspaceState, context.secrets, context.globalState);
+
+	// Load any previously saved tree state, from the storage file if one is configured
+	let fileStorage = createFileStorage(context.workspaceState);
+	if (fileStorage) {
+		treeDataProvider.useFileStorage(fileStorage);
+	} else {
+		treeDataProvider.loadTreeState();
+	}
+
+	// Switch storage when the storage settings change
+	const storageConfigurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+		if (!event.affectsConfiguration('debugConfigs.storage') && !event.affectsConfiguration('debugConfigs.storageFile')) {
+			return;
+		}
+
+		fileStorage?.dispose();
+		fileStorage = createFileStorage(context.workspaceState);
+		treeDataProvider.useFileStorage(fileStorage);
+	});
 
-	// Load any previously saved tree state
-	treeDataProvider.loadTreeState();
+	// Apply a subtree's values to the environment of new terminals
+	const terminalEnvironment = new TerminalEnvironment(treeDataProvider, context.environmentVariableCollection, context.workspaceState);
 
 	// Register the tree data provider with VS Code
 	const treeView = vscode.window.createTreeView('debugConfigs', {
 		treeDataProvider: treeDataProvider,
+		dragAndDropController: new DebugConfigDragAndDropController(treeDataProvider, terminalEnvironment),
+		canSelectMany: true,
 		showCollapseAll: true
 	});
 
@@ -45,7 +79,7 @@ export function activate(context: vscode.ExtensionContext) {
 	const clearTreeCommand = vscode.commands.registerCommand('debugConfigs.clearTree', async () => {
 		const result = await vscode.window.showWarningMessage(
 			'Are you sure you want to clear the entire tree?',
-			{ modal: true },
+			{ modal: true, detail: 'Items in the user layer are shared with your other workspaces and are kept.' },
 			'Yes', 'No'
 		);
 
@@ -75,6 +109,9 @@ export function activate(context: vscode.ExtensionContext) {
 		const nodeType = await vscode.window.showQuickPick(
 			[
 				{ label: 'Leaf Node (with value)', value: 'leaf' },
+				{ label: 'Secret Leaf Node (value kept in secret storage)', value: 'secret' },
+				{ label: 'Choice Leaf Node (pick from options at debug time)', value: 'choice' },
+				{ label: 'Computed Leaf Node (shell command run at debug time)', value: 'computed' },
 				{ label: 'Parent Node (can have children)', value: 'parent' }
 			],
 			{
@@ -87,13 +124,32 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		if (nodeType.value === 'leaf') {
-			const value = await vscode.window.showInputBox({
-				prompt: `Enter value for "${label}"`,
-				placeHolder: 'Value'
-			});
+			const leafValue = await promptForLeafValue(label);
+
+			if (leafValue) {
+				treeDataProvider.addChildToItem(item, label, leafValue.value, leafValue.valueType);
+			}
+		} else if (nodeType.value === 'choice') {
+			const choice = await promptForChoiceOptions(label);
 
-			if (value !== undefined) {
-				treeDataProvider.addChildToItem(item, label, value);
+			if (choice) {
+				treeDataProvider.addChoiceToItem(item, label, choice.options, choice.defaultOption);
+			}
+		} else if (nodeType.value === 'computed') {
+			const computed = await promptForComputedCommand(label);
+
+			if (computed) {
+				treeDataProvider.addComputedToItem(item, label, computed.command, computed.options);
+			}
+		} else if (nodeType.value === 'secret') {
+			const secretValue = await promptForSecretValue(label);
+
+			if (secretValue !== undefined) {
+				try {
+					await treeDataProvider.addSecretToItem(item, label, secretValue);
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to add secret: ${error}`);
+				}
 			}
 		} else {
 			treeDataProvider.addChildToItem(item, label);
@@ -121,61 +177,472 @@ export function activate(context: vscode.ExtensionContext) {
 			return;
 		}
 
-		const currentValue = item.value || '';
-		const value = await vscode.window.showInputBox({
-			prompt: `Enter value for "${item.label}"`,
-			placeHolder: 'Value',
-			value: currentValue
+		// Secret leaves are updated in secret storage
+		if (item.kind === 'secret') {
+			const secretValue = await promptForSecretValue(String(item.label));
+			if (secretValue !== undefined) {
+				try {
+					await treeDataProvider.setItemSecret(item, secretValue);
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to set secret: ${error}`);
+				}
+			}
+			return;
+		}
+
+		// Computed leaves get a new command and settings
+		if (item.kind === 'computed') {
+			const computed = await promptForComputedCommand(String(item.label), item.value, item.computed);
+			if (computed) {
+				treeDataProvider.setItemComputed(item, computed.command, computed.options);
+			}
+			return;
+		}
+
+		// Choice leaves get new options and a new default
+		if (item.kind === 'choice') {
+			const choice = await promptForChoiceOptions(String(item.label), item.options, item.value);
+			if (choice) {
+				treeDataProvider.setItemChoice(item, choice.options, choice.defaultOption);
+			}
+			return;
+		}
+
+		const leafValue = await promptForLeafValue(String(item.label), item.value, item.valueType);
+
+		if (leafValue) {
+			treeDataProvider.setItemValue(item, leafValue.value, leafValue.valueType);
+		}
+	});
+
+	// Register run computed value command
+	const runComputedCommand = vscode.commands.registerCommand('debugConfigs.runComputed', async (item: DebugConfigTreeItem) => {
+		try {
+			const output = await vscode.window.withProgress(
+				{ location: { viewId: 'debugConfigs' }, title: `Running "${item.label}"` },
+				() => treeDataProvider.runComputedItem(item)
+			);
+			vscode.window.showInformationMessage(`${item.label}: ${output}`);
+		} catch (error) {
+			vscode.window.showErrorMessage(`${error instanceof Error ? error.message : error}`);
+		}
+	});
+
+	// Register move to layer command
+	const moveToLayerCommand = vscode.commands.registerCommand('debugConfigs.moveToLayer', async (item: DebugConfigTreeItem) => {
+		const layer = await promptForLayer(item);
+		if (!layer) {
+			return;
+		}
+
+		try {
+			treeDataProvider.moveItemToLayer(item, layer);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to move to layer: ${error}`);
+		}
+	});
+
+	// Register remove override command
+	const removeOverrideCommand = vscode.commands.registerCommand('debugConfigs.removeOverride', (item: DebugConfigTreeItem) => {
+		try {
+			treeDataProvider.removeOverride(item);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to remove override: ${error}`);
+		}
+	});
+
+	// Register extend node command
+	const setExtendsCommand = vscode.commands.registerCommand('debugConfigs.setExtends', async (item: DebugConfigTreeItem) => {
+		const itemPath = treeDataProvider.getItemPath(item) ?? '';
+		const picks: Array<vscode.QuickPickItem & { basePath?: string }> = treeDataProvider.getAllItemsWithPaths()
+			.filter(({ path, item: candidate }) =>
+				candidate.value === undefined && path !== itemPath && !path.startsWith(`${itemPath}.`) && !itemPath.startsWith(`${path}.`)
+			)
+			.map(({ path }) => ({ label: path, basePath: path }));
+		if (item.extends !== undefined) {
+			picks.unshift({ label: '$(close) Stop Extending', description: `currently extends ${item.extends}` });
+		}
+
+		if (picks.length === 0) {
+			vscode.window.showInformationMessage('There are no other parent nodes to extend.');
+			return;
+		}
+
+		const picked = await vscode.window.showQuickPick(picks, {
+			placeHolder: `Select the node "${item.label}" inherits missing children from`
+		});
+		if (!picked) {
+			return;
+		}
+
+		try {
+			treeDataProvider.setItemExtends(item, picked.basePath);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to extend node: ${error}`);
+		}
+	});
+
+	// Register override inherited item command
+	const overrideInheritedCommand = vscode.commands.registerCommand('debugConfigs.overrideInherited', async (item: DebugConfigTreeItem) => {
+		try {
+			const copy = await treeDataProvider.overrideInheritedItem(item);
+			await treeView.reveal(copy, { select: true, focus: true });
+
+			// Inherited values are copied so they can be changed right away
+			if (copy.value !== undefined) {
+				await vscode.commands.executeCommand('debugConfigs.setValue', copy);
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to override inherited item: ${error}`);
+		}
+	});
+
+	// Register rename item command
+	const renameItemCommand = vscode.commands.registerCommand('debugConfigs.renameItem', async (item?: DebugConfigTreeItem) => {
+		// Invoked via keybinding: rename the selected item
+		const target = item ?? treeView.selection[0];
+		if (!target) {
+			return;
+		}
+
+		const currentLabel = String(target.label);
+		const newLabel = await vscode.window.showInputBox({
+			prompt: `Enter new label for "${currentLabel}"`,
+			placeHolder: 'Item label',
+			value: currentLabel,
+			validateInput: (value: string) => {
+				if (value.includes('.')) {
+					return 'Labels cannot contain dots (.) as they are used for path navigation';
+				}
+				if (value.trim() === '') {
+					return 'Labels cannot be empty';
+				}
+				return undefined;
+			}
 		});
 
-		if (value !== undefined) {
-			treeDataProvider.setItemValue(item, value);
+		if (!newLabel || newLabel === currentLabel) {
+			return;
+		}
+
+		const oldPath = treeDataProvider.getItemPath(target);
+		let newPath: string;
+		try {
+			newPath = treeDataProvider.validateRename(target, newLabel);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to rename item: ${error instanceof Error ? error.message : error}`);
+			return;
+		}
+
+		// Update inputs in launch.json and tasks.json that point through the renamed node before renaming it,
+		// so cancelling the preview leaves the tree and the inputs consistent
+		let inputCount = 0;
+		if (oldPath && oldPath !== newPath) {
+			try {
+				const renameEdit = await buildRenameEdit([{ oldPath, newPath }], itemPath => treeDataProvider.generateIdFromPath(itemPath), treeDataProvider.getActiveProfilePath());
+				inputCount = renameEdit.inputCount;
+				if (inputCount > 0 && !await vscode.workspace.applyEdit(renameEdit.edit, { isRefactoring: true })) {
+					vscode.window.showInformationMessage(`Rename of "${currentLabel}" cancelled`);
+					return;
+				}
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to update configuration files: ${error}`);
+				return;
+			}
+		}
+
+		try {
+			treeDataProvider.renameItem(target, newLabel);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to rename item: ${error instanceof Error ? error.message : error}`);
+			return;
+		}
+
+		if (oldPath && oldPath !== newPath) {
+			await terminalEnvironment.renamePath(oldPath, newPath);
+		}
+		if (inputCount > 0) {
+			vscode.window.showInformationMessage(`Updated ${inputCount} input(s) referencing "${oldPath}". Remember to save.`);
+		}
+	});
+
+	// Register undo and redo commands
+	const undoCommand = vscode.commands.registerCommand('debugConfigs.undo', () => {
+		const label = treeDataProvider.undo();
+		vscode.window.setStatusBarMessage(label ? `Debug Configs: undone: ${label}` : 'Debug Configs: nothing to undo', 3000);
+	});
+
+	const redoCommand = vscode.commands.registerCommand('debugConfigs.redo', () => {
+		const label = treeDataProvider.redo();
+		vscode.window.setStatusBarMessage(label ? `Debug Configs: redone: ${label}` : 'Debug Configs: nothing to redo', 3000);
+	});
+
+	// Keep the undo and redo commands enabled only when they can do something
+	const updateHistoryContext = () => {
+		vscode.commands.executeCommand('setContext', 'debugConfigs.canUndo', treeDataProvider.getUndoLabel() !== undefined);
+		vscode.commands.executeCommand('setContext', 'debugConfigs.canRedo', treeDataProvider.getRedoLabel() !== undefined);
+	};
+	updateHistoryContext();
+
+	// Serve snapshots and the current tree as read-only JSON documents for comparing them
+	const snapshotContentProvider = vscode.workspace.registerTextDocumentContentProvider(SNAPSHOT_SCHEME, {
+		provideTextDocumentContent: (uri: vscode.Uri): string => {
+			const id = uri.path.replace(/^\//, '').replace(/\.json$/, '');
+			const state = id === 'current'
+				? treeDataProvider.serializeLayers()
+				: treeDataProvider.getSnapshotState(id);
+			return state ? formatTreeState(state, 2) : '';
+		}
+	});
+
+	// Register create snapshot command
+	const createSnapshotCommand = vscode.commands.registerCommand('debugConfigs.createSnapshot', async () => {
+		const name = await vscode.window.showInputBox({
+			prompt: 'Enter a name for the snapshot of the current tree',
+			placeHolder: 'e.g. before migration',
+			validateInput: (value: string) => value.trim() ? null : 'Name cannot be empty'
+		});
+		if (!name) {
+			return;
+		}
+
+		treeDataProvider.createSnapshot(name.trim());
+		vscode.window.showInformationMessage(`Created snapshot "${name.trim()}"`);
+	});
+
+	// Register show history command
+	const showHistoryCommand = vscode.commands.registerCommand('debugConfigs.showHistory', async () => {
+		const snapshot = await promptForSnapshot(treeDataProvider.getSnapshots());
+		if (snapshot === 'create') {
+			await vscode.commands.executeCommand('debugConfigs.createSnapshot');
+			return;
+		}
+		if (!snapshot) {
+			return;
+		}
+
+		const title = describeSnapshot(snapshot);
+		const actions: Array<vscode.QuickPickItem & { action: 'compare' | 'restore' | 'restoreSubtree' | 'delete' }> = [
+			{ label: '$(diff) Compare with Current Tree', action: 'compare' },
+			{ label: '$(history) Restore Entire Tree', description: 'Replace the whole tree with the snapshot', action: 'restore' },
+			{ label: '$(list-tree) Restore a Subtree...', description: 'Restore only the nodes below one path', action: 'restoreSubtree' },
+			{ label: '$(trash) Delete Snapshot', action: 'delete' }
+		];
+		const picked = await vscode.window.showQuickPick(actions, { title, placeHolder: 'Choose what to do with the snapshot' });
+		if (!picked) {
+			return;
+		}
+
+		try {
+			switch (picked.action) {
+				case 'compare': {
+					const snapshotUri = vscode.Uri.from({ scheme: SNAPSHOT_SCHEME, path: `/${snapshot.id}.json` });
+					// The query makes each comparison read the tree as it is now
+					const currentUri = vscode.Uri.from({ scheme: SNAPSHOT_SCHEME, path: '/current.json', query: String(Date.now()) });
+					await vscode.commands.executeCommand('vscode.diff', snapshotUri, currentUri, `${title} ↔ Current Tree`);
+					break;
+				}
+				case 'restore':
+				case 'restoreSubtree': {
+					let subtreePath: string | undefined;
+					if (picked.action === 'restoreSubtree') {
+						const snapshotState = treeDataProvider.getSnapshotState(snapshot.id);
+						if (!snapshotState) {
+							throw new Error('The snapshot no longer exists');
+						}
+						const changedPaths = diffLayeredStates(treeDataProvider.serializeLayers(), snapshotState);
+						if (changedPaths.length === 0) {
+							vscode.window.showInformationMessage('The snapshot matches the current tree');
+							return;
+						}
+						subtreePath = await vscode.window.showQuickPick(withAncestorPaths(changedPaths), {
+							title,
+							placeHolder: 'Select the subtree to restore from the snapshot'
+						});
+						if (!subtreePath) {
+							return;
+						}
+					}
+
+					treeDataProvider.restoreSnapshot(snapshot.id, subtreePath);
+					vscode.window.showInformationMessage(
+						`${subtreePath ? `Restored "${subtreePath}"` : 'Restored the tree'} from ${title}. Undo reverts the restore.`
+					);
+					break;
+				}
+				case 'delete':
+					treeDataProvider.deleteSnapshot(snapshot.id);
+					vscode.window.showInformationMessage(`Deleted ${title}`);
+					break;
+			}
+		} catch (error) {
+			const verb = { compare: 'compare', restore: 'restore', restoreSubtree: 'restore', delete: 'delete' }[picked.action];
+			vscode.window.showErrorMessage(`Failed to ${verb} snapshot: ${error}`);
+		}
+	});
+
+	// Register reveal item command (used by links in launch.json and tasks.json)
+	const revealItemCommand = vscode.commands.registerCommand('debugConfigs.revealItem', async (itemPath?: string) => {
+		if (!itemPath) {
+			itemPath = await vscode.window.showInputBox({
+				prompt: 'Enter the path of the item to reveal',
+				placeHolder: 'environment.development.port'
+			});
+			if (!itemPath) {
+				return;
+			}
+		}
+
+		try {
+			const item = treeDataProvider.findItemByPath(treeDataProvider.expandProfilePath(itemPath));
+			if (!item) {
+				vscode.window.showErrorMessage(`Path "${itemPath}" does not exist in the tree.`);
+				return;
+			}
+			await treeView.reveal(item, { select: true, focus: true, expand: true });
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to reveal item: ${error instanceof Error ? error.message : error}`);
 		}
 	});
 
 	// Register variable substitution command
-	const replaceCommand = vscode.commands.registerCommand('extension.debugconfigs.replace', (args: { path: string }) => {
+	// Pass "native": true to get numbers, booleans and JSON values in their native form instead of as strings
+	const replaceCommand = vscode.commands.registerCommand('extension.debugconfigs.replace', async (args: { path: string, native?: boolean }) => {
 		if (!args || !args.path) {
 			throw new Error('Path argument is required for debugconfigs.replace command');
 		}
 
-		const pathParts = args.path.split('.');
-		let currentItems = treeDataProvider.getRootItems();
-		let currentItem: DebugConfigTreeItem | undefined;
+		try {
+			return args.native ? await treeDataProvider.resolveNativePath(args.path) : await treeDataProvider.resolvePath(args.path);
+		} catch (error) {
+			// Returning undefined cancels the launch without an error message
+			if (error instanceof ResolveCancelledError) {
+				return undefined;
+			}
+			throw error;
+		}
+	});
 
-		// Navigate through the tree using the dotted path
-		for (const part of pathParts) {
-			currentItem = currentItems.find((item: DebugConfigTreeItem) => {
-				const itemLabel = typeof item.label === 'string' ? item.label : item.label?.label || '';
-				return itemLabel.toLowerCase() === part.toLowerCase();
-			});
+	// Register mark as profile command
+	const markAsProfileCommand = vscode.commands.registerCommand('debugConfigs.markAsProfile', (item: DebugConfigTreeItem) => {
+		try {
+			treeDataProvider.setItemProfile(item, true);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to mark profile: ${error}`);
+		}
+	});
+
+	// Register unmark profile command
+	const unmarkProfileCommand = vscode.commands.registerCommand('debugConfigs.unmarkProfile', (item: DebugConfigTreeItem) => {
+		treeDataProvider.setItemProfile(item, false);
+	});
 
-			if (!currentItem) {
-				throw new Error(`Path "${args.path}" not found: "${part}" does not exist`);
+	// Register select active profile command
+	const selectActiveProfileCommand = vscode.commands.registerCommand('debugConfigs.selectActiveProfile', async (item?: DebugConfigTreeItem) => {
+		// Invoked from the tree context menu: activate that profile directly
+		if (item instanceof DebugConfigTreeItem) {
+			const itemPath = treeDataProvider.getItemPath(item);
+			if (itemPath) {
+				await treeDataProvider.setActiveProfile(itemPath);
 			}
+			return;
+		}
 
-			// If this is not the last part, we need to go deeper
-			if (part !== pathParts[pathParts.length - 1]) {
-				if (!currentItem.children || currentItem.children.length === 0) {
-					throw new Error(`Path "${args.path}" not found: "${part}" has no children`);
-				}
-				currentItems = currentItem.children;
+		const profiles = treeDataProvider.getProfiles();
+		if (profiles.length === 0) {
+			vscode.window.showInformationMessage('No profiles found. Mark a parent node as a profile first.');
+			return;
+		}
+
+		const activePath = treeDataProvider.getActiveProfilePath();
+		const selected = await vscode.window.showQuickPick(
+			[
+				...profiles.map(profile => ({
+					label: profile.path,
+					description: profile.path === activePath ? 'active' : undefined,
+					path: profile.path as string | undefined
+				})),
+				{ label: 'No active profile', description: undefined, path: undefined }
+			],
+			{
+				placeHolder: 'Select the active profile'
 			}
+		);
+
+		if (selected) {
+			await treeDataProvider.setActiveProfile(selected.path);
 		}
+	});
 
-		// At this point, currentItem should be our target
-		if (!currentItem) {
-			throw new Error(`Path "${args.path}" not found`);
+	// Status bar item showing the active profile
+	const profileStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+	profileStatusBarItem.command = 'debugConfigs.selectActiveProfile';
+	const updateProfileStatusBar = () => {
+		const activePath = treeDataProvider.getActiveProfilePath();
+		if (treeDataProvider.getProfiles().length === 0) {
+			profileStatusBarItem.hide();
+			return;
+		}
+		profileStatusBarItem.text = `$(layers) ${activePath ?? 'No profile'}`;
+		profileStatusBarItem.tooltip = 'Debug Configs: select the active profile';
+		profileStatusBarItem.show();
+	};
+	updateProfileStatusBar();
+
+	// Register apply to terminals command
+	const applyToTerminalsCommand = vscode.commands.registerCommand('debugConfigs.applyToTerminals', async (item: DebugConfigTreeItem) => {
+		const itemPath = treeDataProvider.getItemPath(item);
+		if (!itemPath) {
+			return;
 		}
 
-		// Check if this is a leaf node (has a value)
-		if (currentItem.value === undefined) {
-			throw new Error(`Path "${args.path}" does not point to a leaf node with a value`);
+		try {
+			await terminalEnvironment.apply(itemPath);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to apply values to terminals: ${error}`);
+			return;
 		}
 
-		return currentItem.value;
+		const errors = terminalEnvironment.errors;
+		if (errors.length > 0) {
+			vscode.window.showWarningMessage(
+				`Applied ${terminalEnvironment.appliedCount} value(s) from "${itemPath}" to new terminals. ${errors.length} value(s) could not be resolved: ${errors.join('; ')}`
+			);
+			return;
+		}
+		vscode.window.showInformationMessage(
+			`Applied ${terminalEnvironment.appliedCount} value(s) from "${itemPath}" to new terminals. Relaunch existing terminals to pick them up.`
+		);
+	});
+
+	// Register clear terminal environment command
+	const clearTerminalEnvironmentCommand = vscode.commands.registerCommand('debugConfigs.clearTerminalEnvironment', async () => {
+		await terminalEnvironment.clear();
 	});
 
+	// Status bar item showing the subtree applied to terminals; clicking it clears it
+	const terminalStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+	terminalStatusBarItem.command = 'debugConfigs.clearTerminalEnvironment';
+	const updateTerminalStatusBar = () => {
+		const appliedPath = terminalEnvironment.appliedPath;
+		vscode.commands.executeCommand('setContext', 'debugConfigs.terminalEnvironmentApplied', appliedPath !== undefined);
+		if (appliedPath === undefined) {
+			terminalStatusBarItem.hide();
+			return;
+		}
+
+		const appliedItem = treeDataProvider.findItemByPath(appliedPath);
+		const problems = !appliedItem || appliedItem.value !== undefined ? [`"${appliedPath}" is not a parent node in the tree`] : terminalEnvironment.errors;
+		terminalStatusBarItem.text = `${problems.length > 0 ? '$(warning)' : '$(terminal)'} ${appliedPath}`;
+		terminalStatusBarItem.tooltip = [
+			`Debug Configs: ${terminalEnvironment.appliedCount} value(s) from "${appliedPath}" applied to new terminals`,
+			...problems,
+			'Click to stop applying them'
+		].join('\n');
+		terminalStatusBarItem.show();
+	};
+	updateTerminalStatusBar();
+
 	// Register export tree command
 	const exportTreeCommand = vscode.commands.registerCommand('debugConfigs.exportTree', async () => {
 		// Show save dialog to let user choose where to save the JSON file
@@ -212,19 +679,92 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
+	// Register export values command
+	const exportValuesCommand = vscode.commands.registerCommand('debugConfigs.exportValues', async (item: DebugConfigTreeItem) => {
+		const formats: Array<{ label: string, description: string, format: ExportFormat, fileName: string, extensions: string[] }> = [
+			{ label: '.env File', description: 'KEY=VALUE lines', format: 'env', fileName: '.env', extensions: ['env'] },
+			{ label: 'Shell Script', description: 'export KEY=VALUE lines', format: 'shell', fileName: `${getItemLabel(item)}.sh`, extensions: ['sh'] },
+			{ label: 'JSON', description: 'Nested like the tree', format: 'json', fileName: `${getItemLabel(item)}.json`, extensions: ['json'] },
+			{ label: 'YAML', description: 'Nested like the tree', format: 'yaml', fileName: `${getItemLabel(item)}.yaml`, extensions: ['yaml', 'yml'] }
+		];
+		const picked = await vscode.window.showQuickPick(formats, { placeHolder: `Export the values of "${getItemLabel(item)}" as` });
+		if (!picked) {
+			return;
+		}
+
+		// Only ask about secrets when there are any to export
+		const itemPath = treeDataProvider.getItemPath(item) ?? '';
+		const hasSecrets = treeDataProvider.getAllItemsWithPaths()
+			.some(({ path, item: candidate }) => candidate.kind === 'secret' && (path === itemPath || path.startsWith(`${itemPath}.`)));
+		let includeSecrets = false;
+		if (hasSecrets) {
+			const secretChoice = await vscode.window.showQuickPick(
+				[
+					{ label: 'Omit Secret Values', include: false },
+					{ label: 'Include Secret Values', description: 'Written in plain text', include: true }
+				],
+				{ placeHolder: 'The exported values include secrets' }
+			);
+			if (!secretChoice) {
+				return;
+			}
+			includeSecrets = secretChoice.include;
+		}
+
+		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+		const saveUri = await vscode.window.showSaveDialog({
+			defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, picked.fileName) : vscode.Uri.file(picked.fileName),
+			filters: {
+				[picked.label]: picked.extensions,
+				'All Files': ['*']
+			},
+			title: `Export Values as ${picked.label}`
+		});
+
+		if (!saveUri) {
+			return; // User cancelled the dialog
+		}
+
+		try {
+			const count = await treeDataProvider.exportItemValuesToFile(item, saveUri.fsPath, picked.format, getConfiguredKeyNaming(), includeSecrets);
+
+			const result = await vscode.window.showInformationMessage(
+				`Exported ${count} value(s) to ${saveUri.fsPath}`,
+				'Open File'
+			);
+
+			if (result === 'Open File') {
+				const document = await vscode.workspace.openTextDocument(saveUri);
+				await vscode.window.showTextDocument(document);
+			}
+		} catch (error) {
+			if (error instanceof ResolveCancelledError) {
+				return;
+			}
+			vscode.window.showErrorMessage(`Failed to export values: ${error}`);
+		}
+	});
+
 	// Register import tree command
 	const importTreeCommand = vscode.commands.registerCommand('debugConfigs.importTree', async () => {
-		// Warn user that existing tree will be cleared
-		const confirmResult = await vscode.window.showWarningMessage(
-			'Importing will replace the current tree. All existing data will be lost.',
-			{ modal: true },
-			'Continue', 'Cancel'
-		);
-
-		if (confirmResult !== 'Continue') {
+		const mode = await promptForImportMode();
+		if (!mode) {
 			return; // User cancelled
 		}
 
+		if (mode === 'replace') {
+			// Warn user that existing tree will be cleared
+			const confirmResult = await vscode.window.showWarningMessage(
+				'Importing will replace the current tree. All existing data will be lost.',
+				{ modal: true },
+				'Continue', 'Cancel'
+			);
+
+			if (confirmResult !== 'Continue') {
+				return; // User cancelled
+			}
+		}
+
 		// Show open dialog to let user choose the JSON file to import
 		const openUri = await vscode.window.showOpenDialog({
 			canSelectFiles: true,
@@ -242,18 +782,79 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		try {
-			// Import the tree using the new method
-			await treeDataProvider.importTreeStateFromFile(openUri[0].fsPath);
+			const applied = await treeDataProvider.importTreeStateFromFile(
+				openUri[0].fsPath,
+				secretPath => promptForSecretValue(secretPath),
+				mode,
+				(changes, importMode) => reviewImportChanges(changes, importMode)
+			);
+
+			if (applied === undefined) {
+				return; // User cancelled the review
+			}
 
 			// Show success message
-			vscode.window.showInformationMessage(
-				`Tree imported successfully from ${openUri[0].fsPath}`
+			vscode.window.showInformationMessage(mode === 'replace'
+				? `Tree imported successfully from ${openUri[0].fsPath}`
+				: `Merged ${applied.length} change(s) from ${openUri[0].fsPath}`
 			);
 		} catch (error) {
 			vscode.window.showErrorMessage(`Failed to import tree: ${error}`);
 		}
 	});
 
+	// Register import config file command; on a parent node the values are merged into it
+	const importConfigFileCommand = vscode.commands.registerCommand('debugConfigs.importConfigFile', async (item?: DebugConfigTreeItem) => {
+		const openUri = await vscode.window.showOpenDialog({
+			canSelectFiles: true,
+			canSelectFolders: false,
+			canSelectMany: false,
+			filters: {
+				'Config Files': ['env', 'json', 'jsonc', 'yaml', 'yml'],
+				'All Files': ['*']
+			},
+			title: 'Import Values from Config File'
+		});
+
+		if (!openUri || openUri.length === 0) {
+			return; // User cancelled the dialog
+		}
+
+		const fileName = openUri[0].path.substring(openUri[0].path.lastIndexOf('/') + 1);
+		const format = detectConfigFileFormat(fileName) ?? await promptForConfigFileFormat(fileName);
+		if (!format) {
+			return;
+		}
+
+		try {
+			const text = Buffer.from(await vscode.workspace.fs.readFile(openUri[0])).toString('utf8');
+			let items = parseConfigFile(text, format);
+
+			let parent = item;
+			if (!parent) {
+				const target = await promptForImportTarget(treeDataProvider, fileName, format);
+				if (!target) {
+					return;
+				}
+				if (typeof target === 'string') {
+					items = [{ label: target, collapsibleState: vscode.TreeItemCollapsibleState.Expanded, children: items }];
+				} else {
+					parent = target;
+				}
+			}
+
+			const result = await treeDataProvider.importConfigItems(items, parent);
+			const summary = `Imported ${fileName}: ${result.added} value(s) added, ${result.updated} updated`;
+			if (result.skipped.length > 0) {
+				vscode.window.showWarningMessage(`${summary}, ${result.skipped.length} skipped`, { modal: true, detail: result.skipped.join('\n') });
+			} else {
+				vscode.window.showInformationMessage(summary);
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to import ${fileName}: ${error}`);
+		}
+	});
+
 	// Register generate commands JSON command
 	const generateCommandsCommand = vscode.commands.registerCommand('debugConfigs.generateCommands', async () => {
 		try {
@@ -305,13 +906,7 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 
 			// Find launch.json and tasks.json files in the workspace
-			const launchFiles = await vscode.workspace.findFiles('**/.vscode/launch.json', '**/node_modules/**');
-			const taskFiles = await vscode.workspace.findFiles('**/.vscode/tasks.json', '**/node_modules/**');
-
-			const allFiles = [
-				...launchFiles.map(file => ({ uri: file, type: 'launch.json' })),
-				...taskFiles.map(file => ({ uri: file, type: 'tasks.json' }))
-			];
+			const allFiles = await findConfigFiles();
 
 			if (allFiles.length === 0) {
 				vscode.window.showErrorMessage('No launch.json or tasks.json files found in the workspace.');
@@ -319,94 +914,317 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 
 			// Let user select which file to modify
-			let selectedFile: vscode.Uri;
-			if (allFiles.length === 1) {
-				selectedFile = allFiles[0].uri;
-			} else {
-				const fileItems = allFiles.map(file => ({
-					label: `${vscode.workspace.asRelativePath(file.uri)} (${file.type})`,
-					uri: file.uri
-				}));
+			const selected = await promptForConfigFile(allFiles, 'Select configuration file to modify');
+			if (!selected) {
+				return; // User cancelled
+			}
+			const selectedFile = selected.uri;
 
-				const selected = await vscode.window.showQuickPick(fileItems, {
-					placeHolder: 'Select configuration file to modify'
-				});
+			// Read the configuration file and add the inputs that don't exist yet
+			const document = await vscode.workspace.openTextDocument(selectedFile);
+			const { content: updatedContent, added: newCommands } = addReplaceInputs(document.getText(), commands);
 
-				if (!selected) {
-					return; // User cancelled
-				}
-				selectedFile = selected.uri;
+			if (newCommands.length === 0) {
+				vscode.window.showInformationMessage('All input commands already exist in the configuration file.');
+				return;
 			}
 
-			// Read and parse the configuration file
-			const document = await vscode.workspace.openTextDocument(selectedFile);
-			const content = document.getText();
+			const edit = new vscode.WorkspaceEdit();
+			edit.replace(selectedFile, new vscode.Range(0, 0, document.lineCount, 0), updatedContent);
 
-			let config: any;
-			try {
-				// Parse JSONC while preserving structure
-				config = jsonc.parse(content);
-			} catch (parseError) {
-				vscode.window.showErrorMessage(`Failed to parse configuration file: ${parseError}`);
+			await vscode.workspace.applyEdit(edit);
+
+			// Show success message
+			vscode.window.showInformationMessage(
+				`Added ${newCommands.length} input command(s). Remember to save.`
+			);
+
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to add commands to configuration file: ${error}`);
+		}
+	});
+
+	// Register generate launch configuration command
+	const generateLaunchConfigCommand = vscode.commands.registerCommand('debugConfigs.generateLaunchConfig', async (item: DebugConfigTreeItem) => {
+		try {
+			const leaves = treeDataProvider.getLeavesBelow(item);
+			if (leaves.length === 0) {
+				vscode.window.showInformationMessage(`"${getItemLabel(item)}" has no values to add to a launch configuration.`);
 				return;
 			}
 
-			// Get existing input IDs to avoid duplicates
-			const existingIds = new Set((config.inputs || []).map((input: any) => input.id));
+			const debugType = await promptForDebugType();
+			if (!debugType) {
+				return;
+			}
 
-			// Filter out commands that already exist
-			const newCommands = commands.filter(command => !existingIds.has(command.id));
+			const launchFiles = (await findConfigFiles()).filter(file => file.type === 'launch.json');
+			if (launchFiles.length === 0) {
+				vscode.window.showErrorMessage('No launch.json files found in the workspace.');
+				return;
+			}
 
-			if (newCommands.length === 0) {
-				vscode.window.showInformationMessage('All input commands already exist in the configuration file.');
+			const selected = await promptForConfigFile(launchFiles, 'Select the launch.json to add the configuration to');
+			if (!selected) {
 				return;
 			}
 
-			// Use jsonc-parser to make edits while preserving comments
-			let updatedContent = content;
-			const edits: jsonc.Edit[] = [];
+			const document = await vscode.workspace.openTextDocument(selected.uri);
+			const existingNames = new Set(((jsonc.parse(document.getText()) ?? {}).configurations ?? []).map((configuration: any) => configuration?.name));
+			const name = await vscode.window.showInputBox({
+				prompt: 'Enter a name for the launch configuration',
+				value: getItemLabel(item),
+				validateInput: (value: string) => {
+					if (!value.trim()) {
+						return 'Name cannot be empty';
+					}
+					return existingNames.has(value.trim()) ? `A configuration named "${value.trim()}" already exists` : undefined;
+				}
+			});
+			if (!name) {
+				return;
+			}
 
-			if (config.inputs) {
-				// Inputs array exists - add new commands to it
-				for (const command of newCommands) {
-					edits.push(...jsonc.modify(updatedContent, ['inputs', -1], command, {
-						formattingOptions: {
-							insertSpaces: true,
-							tabSize: 2
-						}
-					}));
+			// Map each leaf to its input, keyed like exported .env files
+			const keys = toDistinctFlatKeys(leaves.map(leaf => leaf.labels), getConfiguredKeyNaming());
+			const env: Record<string, string> = {};
+			leaves.forEach((leaf, index) => {
+				env[keys[index]] = `\${input:${treeDataProvider.generateIdFromPath(leaf.path)}}`;
+			});
+
+			const leafPaths = new Set(leaves.map(leaf => leaf.path));
+			const inputs = treeDataProvider.generateCommandsJson().filter(input => leafPaths.has(input.args.path));
+			const withConfiguration = addLaunchConfiguration(document.getText(), { type: debugType, request: 'launch', name: name.trim(), env });
+			const { content: updatedContent } = addReplaceInputs(withConfiguration, inputs);
+
+			const edit = new vscode.WorkspaceEdit();
+			edit.replace(selected.uri, new vscode.Range(0, 0, document.lineCount, 0), updatedContent);
+			await vscode.workspace.applyEdit(edit);
+			await vscode.window.showTextDocument(document);
+
+			vscode.window.showInformationMessage(
+				`Added launch configuration "${name.trim()}" with ${leaves.length} environment variable(s). Remember to save.`
+			);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to generate launch configuration: ${error}`);
+		}
+	});
+
+	// Register extract values command
+	const extractValuesCommand = vscode.commands.registerCommand('debugConfigs.extractValues', async () => {
+		try {
+			const allFiles = await findConfigFiles();
+			if (allFiles.length === 0) {
+				vscode.window.showErrorMessage('No launch.json or tasks.json files found in the workspace.');
+				return;
+			}
+
+			const selected = await promptForConfigFile(allFiles, 'Select the configuration file to extract values from');
+			if (!selected) {
+				return; // User cancelled
+			}
+
+			const document = await vscode.workspace.openTextDocument(selected.uri);
+			const text = document.getText();
+			const literals = findConfigLiterals(jsonc.parseTree(text), selected.type);
+			if (literals.length === 0) {
+				vscode.window.showInformationMessage(`No literal values found in ${vscode.workspace.asRelativePath(selected.uri)}.`);
+				return;
+			}
+
+			// List the literals per configuration
+			const picks: Array<vscode.QuickPickItem & { literal?: ConfigLiteral }> = [];
+			literals.forEach((literal, index) => {
+				if (index === 0 || literals[index - 1].configName !== literal.configName) {
+					picks.push({ label: literal.configName, kind: vscode.QuickPickItemKind.Separator });
 				}
-			} else {
-				// No inputs array - create one
-				edits.push(...jsonc.modify(updatedContent, ['inputs'], newCommands, {
-					formattingOptions: {
-						insertSpaces: true,
-						tabSize: 2
+				picks.push({ label: formatJsonLocation(literal.location), description: literal.value, literal });
+			});
+
+			const picked = await vscode.window.showQuickPick(picks, {
+				canPickMany: true,
+				matchOnDescription: true,
+				placeHolder: 'Select the values to move into the tree'
+			});
+			if (!picked || picked.length === 0) {
+				return;
+			}
+
+			const extractions = await promptForExtractionPaths(picked.map(pick => pick.literal as ConfigLiteral));
+			if (!extractions) {
+				return;
+			}
+
+			// Check the paths first, then update the file, and only add the values once the edit is applied,
+			// so a failed edit leaves the tree unchanged
+			const values = extractions.map(({ path, literal }) => ({ path, value: literal.value }));
+			treeDataProvider.validateValuesAtPaths(values);
+
+			// Replace the literals with their inputs, then add the inputs the same way Add to Configuration Files does
+			const edits: jsonc.Edit[] = extractions.map(({ path, literal }) => ({
+				offset: literal.node.offset,
+				length: literal.node.length,
+				content: JSON.stringify(`\${input:${treeDataProvider.generateIdFromPath(path)}}`)
+			}));
+			const inputPaths = [...new Set(extractions.map(({ path }) => path.toLowerCase()))];
+			const inputs: ReplaceInputDefinition[] = inputPaths.map(inputPath => ({
+				id: treeDataProvider.generateIdFromPath(inputPath),
+				type: 'command',
+				command: REPLACE_COMMAND,
+				args: { path: inputPath }
+			}));
+			const { content: updatedContent } = addReplaceInputs(jsonc.applyEdits(text, edits), inputs);
+
+			const edit = new vscode.WorkspaceEdit();
+			edit.replace(selected.uri, new vscode.Range(0, 0, document.lineCount, 0), updatedContent);
+			if (!await vscode.workspace.applyEdit(edit)) {
+				vscode.window.showErrorMessage(`Failed to update ${vscode.workspace.asRelativePath(selected.uri)}; the tree was not changed.`);
+				return;
+			}
+
+			const added = treeDataProvider.addValuesAtPaths(values);
+			vscode.window.showInformationMessage(
+				`Replaced ${extractions.length} value(s) with inputs and added ${added} leaf node(s) to the tree. Remember to save.`
+			);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to extract values: ${error}`);
+		}
+	});
+
+	// Register sync inputs command
+	const syncInputsCommand = vscode.commands.registerCommand('debugConfigs.syncInputs', async () => {
+		try {
+			const allFiles = await findConfigFiles();
+			if (allFiles.length === 0) {
+				vscode.window.showErrorMessage('No launch.json or tasks.json files found in the workspace.');
+				return;
+			}
+
+			const selected = await promptForConfigFile(allFiles, 'Select the configuration file to sync');
+			if (!selected) {
+				return; // User cancelled
+			}
+
+			const document = await vscode.workspace.openTextDocument(selected.uri);
+			const relativePath = vscode.workspace.asRelativePath(selected.uri);
+			const syncOptions = {
+				// Profile-relative paths depend on the active profile, so they are never treated as stale
+				pointsAtLeaf: (itemPath: string) => {
+					if (itemPath.toLowerCase().startsWith(PROFILE_PATH_PREFIX)) {
+						return true;
+					}
+					try {
+						return treeDataProvider.findItemByPath(treeDataProvider.expandProfilePath(itemPath))?.value !== undefined;
+					} catch {
+						return false;
 					}
-				}));
+				},
+				expandPath: (itemPath: string) => {
+					try {
+						return treeDataProvider.expandProfilePath(itemPath);
+					} catch {
+						return itemPath;
+					}
+				},
+				generateId: (itemPath: string) => treeDataProvider.generateIdFromPath(itemPath),
+				leafInputs: treeDataProvider.generateCommandsJson()
+			};
+
+			// Report everything that is out of sync, then apply the kinds of changes the user keeps;
+			// each kind is independent of the others, so the report shows exactly what is applied
+			const report = syncReplaceInputs(document.getText(), { ...syncOptions, changes: ['remove', 'rename', 'add'] });
+			const summarize = (lines: string[]) => lines.slice(0, 5).join(', ') + (lines.length > 5 ? `, and ${lines.length - 5} more` : '');
+			const picks: Array<vscode.QuickPickItem & { change: InputSyncChange }> = [];
+			if (report.removed.length > 0) {
+				picks.push({
+					label: `Remove ${report.removed.length} input(s) whose path is not a leaf`,
+					detail: summarize(report.removed.map(input => input.path)),
+					picked: true,
+					change: 'remove'
+				});
+			}
+			if (report.renamed.length > 0) {
+				picks.push({
+					label: `Rename ${report.renamed.length} input ID(s) to match their path`,
+					detail: summarize(report.renamed.map(({ oldId, newId }) => `${oldId} → ${newId}`)),
+					picked: true,
+					change: 'rename'
+				});
+			}
+			if (report.added.length > 0) {
+				picks.push({
+					label: `Add ${report.added.length} input(s) for leaves without one`,
+					detail: summarize(report.added.map(input => input.args.path)),
+					picked: true,
+					change: 'add'
+				});
 			}
 
-			// Apply all edits
-			updatedContent = jsonc.applyEdits(updatedContent, edits);
+			if (picks.length === 0) {
+				vscode.window.showInformationMessage(`The inputs in ${relativePath} are in sync with the tree.`);
+				return;
+			}
 
-			// Add comments for new inputs manually (jsonc-parser doesn't handle comments in modifications)
-			for (const command of newCommands) {
-				const commandRegex = new RegExp(`(\\s*)(\\{[^}]*"id"\\s*:\\s*"${command.id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"[^}]*\\})`, 'g');
-				updatedContent = updatedContent.replace(commandRegex, `$1// use this: \${input:${command.id}}\n$1$2`);
+			const picked = await vscode.window.showQuickPick(picks, {
+				canPickMany: true,
+				placeHolder: `Select the changes to make to ${relativePath}`
+			});
+			if (!picked || picked.length === 0) {
+				return;
 			}
 
+			const result = syncReplaceInputs(document.getText(), { ...syncOptions, changes: picked.map(pick => pick.change) });
 			const edit = new vscode.WorkspaceEdit();
-			edit.replace(selectedFile, new vscode.Range(0, 0, document.lineCount, 0), updatedContent);
+			edit.replace(selected.uri, new vscode.Range(0, 0, document.lineCount, 0), result.content, {
+				label: 'Sync inputs with the Debug Configurations tree',
+				description: relativePath,
+				needsConfirmation: true
+			});
 
-			await vscode.workspace.applyEdit(edit);
+			if (!await vscode.workspace.applyEdit(edit)) {
+				return; // The preview was cancelled
+			}
 
-			// Show success message
-			vscode.window.showInformationMessage(
-				`Added ${newCommands.length} input command(s). Remember to save.`
-			);
+			if (result.unresolvedUsages.length > 0) {
+				vscode.window.showWarningMessage(
+					`Removed inputs are still used in ${relativePath}: ${result.unresolvedUsages.map(id => `\${input:${id}}`).join(', ')}`
+				);
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to sync inputs: ${error}`);
+		}
+	});
+
+	// Register migrate to file command
+	const migrateToFileCommand = vscode.commands.registerCommand('debugConfigs.migrateToFile', async () => {
+		const storage = createFileStorage(context.workspaceState, true);
+		if (!storage) {
+			vscode.window.showErrorMessage('Moving the tree to a storage file requires an open workspace folder.');
+			return;
+		}
+
+		try {
+			const relativePath = vscode.workspace.asRelativePath(storage.uri);
+			if (await storage.exists()) {
+				const result = await vscode.window.showWarningMessage(
+					`${relativePath} already exists. Overwrite it with the tree stored in this workspace?`,
+					{ modal: true },
+					'Overwrite'
+				);
+				if (result !== 'Overwrite') {
+					return;
+				}
+			}
 
+			const count = await treeDataProvider.migrateWorkspaceStateToFile(storage);
+
+			// Switching the setting makes the configuration listener load the tree from the file
+			await vscode.workspace.getConfiguration('debugConfigs').update('storage', 'file', vscode.ConfigurationTarget.Workspace);
+			vscode.window.showInformationMessage(`Moved ${count} root item(s) to ${relativePath}. Commit it to share the tree; secret values stay on this machine.`);
 		} catch (error) {
-			vscode.window.showErrorMessage(`Failed to add commands to configuration file: ${error}`);
+			vscode.window.showErrorMessage(`Failed to move tree to storage file: ${error}`);
+		} finally {
+			storage.dispose();
 		}
 	});
 
@@ -419,10 +1237,621 @@ export function activate(context: vscode.ExtensionContext) {
 		setValueCommand,
 		replaceCommand,
 		exportTreeCommand,
+		exportValuesCommand,
 		importTreeCommand,
+		importConfigFileCommand,
 		generateCommandsCommand,
-		addToLaunchConfigCommand
+		addToLaunchConfigCommand,
+		generateLaunchConfigCommand,
+		extractValuesCommand,
+		syncInputsCommand,
+		markAsProfileCommand,
+		unmarkProfileCommand,
+		selectActiveProfileCommand,
+		renameItemCommand,
+		revealItemCommand,
+		runComputedCommand,
+		migrateToFileCommand,
+		moveToLayerCommand,
+		removeOverrideCommand,
+		setExtendsCommand,
+		overrideInheritedCommand,
+		storageConfigurationListener,
+		{ dispose: () => fileStorage?.dispose() },
+		new DebugConfigLanguageSupport(treeDataProvider).register(),
+		vscode.debug.registerDebugConfigurationProvider('*', new DebugConfigVariableProvider(treeDataProvider)),
+		vscode.tasks.registerTaskProvider(TASK_TYPE, new DebugConfigTaskProvider(treeDataProvider)),
+		profileStatusBarItem,
+		treeDataProvider.onDidChangeTreeData(updateProfileStatusBar),
+		treeDataProvider.onDidChangeActiveProfile(updateProfileStatusBar),
+		terminalEnvironment,
+		applyToTerminalsCommand,
+		clearTerminalEnvironmentCommand,
+		terminalStatusBarItem,
+		terminalEnvironment.onDidChange(updateTerminalStatusBar),
+		undoCommand,
+		redoCommand,
+		treeDataProvider.onDidChangeHistory(updateHistoryContext),
+		snapshotContentProvider,
+		createSnapshotCommand,
+		showHistoryCommand
+	);
+
+	// Expose the tree to other extensions
+	const api = new DebugConfigApi(treeDataProvider);
+	context.subscriptions.push(api);
+	return api;
+}
+
+export function deactivate() { }
+
+/**
+ * URI scheme of the read-only documents used to compare snapshots with the current tree
+ */
+const SNAPSHOT_SCHEME = 'debugconfigs-snapshot';
+
+/**
+ * Create the storage file configured by the debugConfigs.storage and debugConfigs.storageFile settings
+ * Relative storage file paths are resolved against the first workspace folder
+ * @param workspaceState Where the storage file keeps display state, which is not shared
+ * @param ignoreStorageSetting Create the storage file even if debugConfigs.storage is not "file"
+ * @returns The storage file, or undefined if workspace state should be used
+ */
+function createFileStorage(workspaceState: vscode.Memento, ignoreStorageSetting = false): TreeStateFileStorage | undefined {
+	const configuration = vscode.workspace.getConfiguration('debugConfigs');
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	if (!workspaceFolder || (!ignoreStorageSetting && configuration.get<string>('storage') !== 'file')) {
+		return undefined;
+	}
+
+	const storageFile = configuration.get<string>('storageFile') || '.vscode/debugconfigs.json';
+	const uri = storageFile.startsWith('/') || /^[a-zA-Z]:[\\/]/.test(storageFile)
+		? vscode.Uri.file(storageFile)
+		: vscode.Uri.joinPath(workspaceFolder.uri, storageFile);
+
+	return new TreeStateFileStorage(uri, () => promptForStorageConflict(uri), workspaceState);
+}
+
+/**
+ * Ask the user how to resolve a save when the storage file and the tree have both changed
+ * @param uri The storage file
+ * @returns The chosen resolution, or undefined if the user postponed the decision
+ */
+async function promptForStorageConflict(uri: vscode.Uri): Promise<ConflictResolution | undefined> {
+	const keepTree = 'Keep Tree Version';
+	const useFile = 'Use File Version';
+	const result = await vscode.window.showWarningMessage(
+		`${vscode.workspace.asRelativePath(uri)} was changed outside Debug Configs since it was last loaded.`,
+		{ modal: true, detail: 'Keep the tree version to overwrite the file with your changes, or use the file version to discard them.' },
+		keepTree,
+		useFile
+	);
+
+	if (result === keepTree) {
+		return 'keepTree';
+	}
+	return result === useFile ? 'useFile' : undefined;
+}
+
+/**
+ * Prompt the user for the layer to move an item to
+ * @param item The item being moved; its current layer is not offered for leaves
+ * @returns The chosen layer, or undefined if the user cancelled
+ */
+async function promptForLayer(item: DebugConfigTreeItem): Promise<TreeLayer | undefined> {
+	const descriptions: Record<TreeLayer, string> = {
+		user: 'Your values, shared by all your workspaces',
+		workspace: 'The workspace tree, shared when stored in a file',
+		local: 'Your overrides for this workspace, never shared'
+	};
+	const isLeaf = item.value !== undefined;
+
+	const picked = await vscode.window.showQuickPick(
+		TREE_LAYERS
+			.filter(layer => !isLeaf || layer !== item.layer)
+			.map(layer => ({ label: layer, description: descriptions[layer], layer })),
+		{
+			placeHolder: isLeaf
+				? `Move "${item.label}" from the ${item.layer} layer to`
+				: `Move every value under "${item.label}" to`
+		}
+	);
+
+	return picked?.layer;
+}
+
+/**
+ * Let the user pick one of the workspace's configuration files, without asking when there is only one
+ * @param files The launch.json and tasks.json files found in the workspace
+ * @param placeHolder The prompt shown in the picker
+ * @returns The chosen file, or undefined if the user cancelled
+ */
+async function promptForConfigFile(files: ConfigFile[], placeHolder: string): Promise<ConfigFile | undefined> {
+	if (files.length === 1) {
+		return files[0];
+	}
+
+	const selected = await vscode.window.showQuickPick(
+		files.map(file => ({
+			label: `${vscode.workspace.asRelativePath(file.uri)} (${file.type})`,
+			file
+		})),
+		{ placeHolder }
+	);
+
+	return selected?.file;
+}
+
+/**
+ * Let the user choose the debugger type of a new launch configuration from the debuggers contributed by installed extensions
+ * Falls back to typing the type when no extension contributes a debugger
+ * @returns The debugger type (e.g. "node"), or undefined if the user cancelled
+ */
+async function promptForDebugType(): Promise<string | undefined> {
+	const debuggers = new Map<string, { label: string, extension: string }>();
+	for (const extension of vscode.extensions.all) {
+		for (const contributed of extension.packageJSON?.contributes?.debuggers ?? []) {
+			// Debuggers without a label only extend other debuggers' types
+			if (typeof contributed?.type === 'string' && contributed.type !== '*' && typeof contributed.label === 'string' && !debuggers.has(contributed.type)) {
+				debuggers.set(contributed.type, { label: contributed.label, extension: extension.packageJSON.displayName ?? extension.id });
+			}
+		}
+	}
+
+	if (debuggers.size === 0) {
+		const typed = await vscode.window.showInputBox({
+			prompt: 'No installed extension contributes a debugger. Enter the debugger type',
+			placeHolder: 'node',
+			validateInput: (value: string) => value.trim() ? undefined : 'Type cannot be empty'
+		});
+		return typed?.trim();
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		[...debuggers].map(([type, { label, extension }]) => ({ label, description: type, detail: extension, type }))
+			.sort((a, b) => a.label.localeCompare(b.label)),
+		{ placeHolder: 'Select the debugger for the launch configuration', matchOnDescription: true }
 	);
+	return picked?.type;
 }
 
-export function deactivate() { }
\ No newline at end of file
+/**
+ * Let the user choose the tree paths that extracted literals are moved to
+ * Paths are suggested from a parent path and each literal's location, and can then be changed one by one
+ * @param literals The literals being extracted
+ * @returns Each literal with its tree path, or undefined if the user cancelled
+ */
+async function promptForExtractionPaths(literals: ConfigLiteral[]): Promise<Array<{ literal: ConfigLiteral, path: string }> | undefined> {
+	const validatePath = (value: string) => value.split('.').some(part => part.trim() === '') ? 'Labels in the path cannot be empty' : undefined;
+	// Input IDs are generated from these paths, so labels are trimmed the same way the tree trims them
+	const normalizePath = (value: string) => value.split('.').map(part => part.trim()).join('.');
+	const configNames = [...new Set(literals.map(literal => literal.configName))];
+
+	const parentPath = await vscode.window.showInputBox({
+		prompt: 'Enter the path of the node to put the values under (created if needed)',
+		value: configNames.length === 1 ? sanitizeLabel(configNames[0]) : 'launch',
+		validateInput: validatePath
+	});
+	if (parentPath === undefined) {
+		return undefined;
+	}
+
+	// Values from several configurations get one node per configuration
+	const extractions = literals.map(literal => ({
+		literal,
+		path: [normalizePath(parentPath), ...(configNames.length > 1 ? [sanitizeLabel(literal.configName)] : []), suggestLiteralLabel(literal)].join('.')
+	}));
+
+	// Equal values share a path; different values that would share one get a numeric suffix
+	const usedPaths = new Map<string, string>();
+	for (const extraction of extractions) {
+		const suggestedPath = extraction.path;
+		for (let suffix = 2; (usedPaths.get(extraction.path.toLowerCase()) ?? extraction.literal.value) !== extraction.literal.value; suffix++) {
+			extraction.path = `${suggestedPath}_${suffix}`;
+		}
+		usedPaths.set(extraction.path.toLowerCase(), extraction.literal.value);
+	}
+
+	// Let the user change individual paths until they confirm
+	for (;;) {
+		const picked = await vscode.window.showQuickPick<vscode.QuickPickItem & { extraction?: typeof extractions[number] }>(
+			[
+				{ label: `$(check) Move ${extractions.length} value(s) into the tree` },
+				{ label: 'Paths', kind: vscode.QuickPickItemKind.Separator },
+				...extractions.map(extraction => ({
+					label: extraction.path,
+					description: extraction.literal.value,
+					detail: `${extraction.literal.configName}: ${formatJsonLocation(extraction.literal.location)}`,
+					extraction
+				}))
+			],
+			{ placeHolder: 'Select a path to change it, or confirm', ignoreFocusOut: true }
+		);
+		if (!picked) {
+			return undefined;
+		}
+		if (!picked.extraction) {
+			return extractions;
+		}
+
+		const newPath = await vscode.window.showInputBox({
+			prompt: `Enter the tree path for "${picked.extraction.literal.value}"`,
+			value: picked.extraction.path,
+			validateInput: validatePath
+		});
+		if (newPath !== undefined) {
+			picked.extraction.path = normalizePath(newPath);
+		}
+	}
+}
+
+/**
+ * Suggest a tree label for a literal from its location, e.g. "DB_HOST" for env.DB_HOST
+ * Array elements are named after the flag before them ("port" for the 8080 in ["--port", "8080"]), or else by index ("args_2")
+ */
+function suggestLiteralLabel(literal: ConfigLiteral): string {
+	const last = literal.location[literal.location.length - 1];
+	if (typeof last === 'string') {
+		return sanitizeLabel(last);
+	}
+
+	const previous = literal.node.parent?.children?.[last - 1];
+	const flag = typeof previous?.value === 'string' ? /^--?([A-Za-z][\w-]*)$/.exec(previous.value) : null;
+	return sanitizeLabel(flag ? flag[1] : `${literal.location[literal.location.length - 2]}_${last}`);
+}
+
+/**
+ * Format a location inside a configuration for display, e.g. env.DB_HOST or args[2]
+ */
+function formatJsonLocation(location: jsonc.JSONPath): string {
+	return location.map((part, index) => typeof part === 'number' ? `[${part}]` : index > 0 ? `.${part}` : part).join('');
+}
+
+/**
+ * Prompt the user for how an imported tree is combined with the current one
+ * @returns The chosen import mode, or undefined if the user cancelled
+ */
+async function promptForImportMode(): Promise<ImportMode | undefined> {
+	const modes: { label: string, description: string, mode: ImportMode }[] = [
+		{ label: 'Merge, Keep Ours', description: 'Add missing values, keep current values where they differ', mode: 'mergeKeepOurs' },
+		{ label: 'Merge, Take Theirs', description: 'Add missing values, use imported values where they differ', mode: 'mergeTakeTheirs' },
+		{ label: 'Review Each Change', description: 'Choose which additions, changes and removals to apply', mode: 'interactive' },
+		{ label: 'Replace', description: 'Replace the current tree with the imported one', mode: 'replace' }
+	];
+
+	const picked = await vscode.window.showQuickPick(modes, { placeHolder: 'How should the imported tree be combined with the current one?' });
+	return picked?.mode;
+}
+
+/**
+ * Let the user review the changes an import would make
+ * Merge modes pre-select every proposed change; interactive imports only pre-select additions and changes
+ * @param changes The proposed changes
+ * @param mode The import mode
+ * @returns The accepted changes, or undefined if the user cancelled
+ */
+async function reviewImportChanges(changes: TreeStateChange[], mode: ImportMode): Promise<TreeStateChange[] | undefined> {
+	const icons: Record<TreeStateChangeKind, string> = {
+		added: '$(add)',
+		changed: '$(edit)',
+		removed: '$(remove)',
+		conflict: '$(warning)'
+	};
+	const describe = (change: TreeStateChange): string => {
+		switch (change.kind) {
+			case 'added':
+				return `new: ${describeTreeStateNode(change.theirs)}`;
+			case 'removed':
+				return `removed: ${describeTreeStateNode(change.ours)}`;
+			default:
+				return `${describeTreeStateNode(change.ours)} → ${describeTreeStateNode(change.theirs)}`;
+		}
+	};
+
+	const picked = await vscode.window.showQuickPick(
+		changes.map(change => ({
+			label: `${icons[change.kind]} ${change.path}`,
+			description: describe(change),
+			detail: change.kind === 'conflict' ? 'Conflict: accepting replaces the current node with the imported one' : undefined,
+			picked: mode !== 'interactive' || change.kind === 'added' || change.kind === 'changed',
+			change
+		})),
+		{
+			canPickMany: true,
+			matchOnDescription: true,
+			ignoreFocusOut: true,
+			title: `Review Import (${changes.length} change(s))`,
+			placeHolder: 'Select the changes to apply'
+		}
+	);
+
+	return picked?.map(item => item.change);
+}
+
+/**
+ * Let the user pick a snapshot of the tree, newest first, each with the paths it changed since the one before
+ * @param snapshots The snapshots, newest first
+ * @returns The chosen snapshot, 'create' to take a named snapshot, or undefined if the user cancelled
+ */
+async function promptForSnapshot(snapshots: TreeSnapshot[]): Promise<TreeSnapshot | 'create' | undefined> {
+	type SnapshotPickItem = vscode.QuickPickItem & { snapshot?: TreeSnapshot | 'create' };
+	const items: SnapshotPickItem[] = [
+		{ label: '$(add) Create Named Snapshot...', snapshot: 'create' },
+		{ label: 'Snapshots', kind: vscode.QuickPickItemKind.Separator }
+	];
+	for (const snapshot of snapshots) {
+		items.push({
+			label: snapshot.name ? `$(bookmark) ${snapshot.name}` : snapshot.label,
+			description: new Date(snapshot.timestamp).toLocaleString(),
+			detail: snapshot.changedPaths ? summarizePaths(snapshot.changedPaths) : 'First snapshot',
+			snapshot
+		});
+	}
+
+	const picked = await vscode.window.showQuickPick(items, {
+		title: 'Debug Configs History',
+		placeHolder: snapshots.length > 0 ? 'Select a snapshot to compare or restore' : 'No snapshots yet',
+		matchOnDescription: true,
+		matchOnDetail: true
+	});
+	return picked?.snapshot;
+}
+
+/**
+ * Describe a snapshot for titles and messages, e.g. 'snapshot "before migration"'
+ */
+function describeSnapshot(snapshot: TreeSnapshot): string {
+	return `snapshot "${snapshot.name ?? snapshot.label}" (${new Date(snapshot.timestamp).toLocaleString()})`;
+}
+
+/**
+ * Summarize changed paths in one line, listing the first few
+ */
+function summarizePaths(paths: string[]): string {
+	if (paths.length === 0) {
+		return 'No changes';
+	}
+	const shown = paths.slice(0, 3).join(', ');
+	return paths.length > 3 ? `${shown} and ${paths.length - 3} more` : shown;
+}
+
+/**
+ * Add the ancestors of dotted paths, so a whole parent can be picked
+ * @param paths The dotted paths
+ * @returns The paths with their ancestors, sorted
+ */
+function withAncestorPaths(paths: string[]): string[] {
+	const result = new Set<string>();
+	for (const path of paths) {
+		const parts = path.split('.');
+		for (let i = 1; i <= parts.length; i++) {
+			result.add(parts.slice(0, i).join('.'));
+		}
+	}
+	return [...result].sort();
+}
+
+/**
+ * Prompt the user for the format of a config file whose name does not tell
+ * @param fileName The name of the file, used in the prompt
+ * @returns The chosen format, or undefined if the user cancelled
+ */
+async function promptForConfigFileFormat(fileName: string): Promise<ConfigFileFormat | undefined> {
+	const picked = await vscode.window.showQuickPick(
+		[
+			{ label: '.env', description: 'KEY=VALUE lines', format: 'env' as ConfigFileFormat },
+			{ label: 'JSON', format: 'json' as ConfigFileFormat },
+			{ label: 'YAML', format: 'yaml' as ConfigFileFormat }
+		],
+		{ placeHolder: `Select the format of ${fileName}` }
+	);
+
+	return picked?.format;
+}
+
+/**
+ * Prompt the user for where imported config values go: a new root node or an existing parent
+ * @param treeDataProvider The tree data provider, used to list parents and check root labels
+ * @param fileName The name of the imported file, used to suggest the new root label
+ * @param format The format of the imported file
+ * @returns The label of the new root node, the parent to merge into, or undefined if the user cancelled
+ */
+async function promptForImportTarget(treeDataProvider: DebugConfigTreeDataProvider, fileName: string, format: ConfigFileFormat): Promise<string | DebugConfigTreeItem | undefined> {
+	const picks: Array<vscode.QuickPickItem & { parent?: DebugConfigTreeItem }> = [
+		{ label: '$(add) New Root Node...', description: 'Put the values under a new top-level node' },
+		...treeDataProvider.getAllItemsWithPaths()
+			.filter(({ item }) => item.value === undefined && !item.inheritedFrom)
+			.map(({ path, item }) => ({ label: path, description: 'Merge into this node', parent: item }))
+	];
+
+	const picked = await vscode.window.showQuickPick(picks, { placeHolder: `Where should the values from ${fileName} go?` });
+	if (!picked) {
+		return undefined;
+	}
+	if (picked.parent) {
+		return picked.parent;
+	}
+
+	// Suggest the file name without leading dots and, except for .env files, without its extension
+	const baseName = fileName.replace(/^\.+/, '');
+	const suggestion = sanitizeLabel(format === 'env' || !baseName.includes('.') ? baseName : baseName.substring(0, baseName.lastIndexOf('.')));
+	const rootLabels = treeDataProvider.getRootItems().map(root => getItemLabel(root).toLowerCase());
+
+	const label = await vscode.window.showInputBox({
+		prompt: 'Enter label for the new root node',
+		value: suggestion,
+		validateInput: (value: string) => {
+			if (value.trim().length === 0) {
+				return 'Label cannot be empty';
+			}
+			if (value.includes('.')) {
+				return 'Labels cannot contain dots (.) as they are used for path navigation';
+			}
+			if (rootLabels.includes(value.trim().toLowerCase())) {
+				return `"${value.trim()}" already exists; pick it from the list to merge into it`;
+			}
+			return undefined;
+		}
+	});
+
+	return label?.trim();
+}
+
+/**
+ * Prompt the user for the value of a secret leaf without echoing it
+ * @param label The label or path of the secret, used in the prompt
+ * @returns The entered secret, or undefined if the user cancelled
+ */
+function promptForSecretValue(label: string): Thenable<string | undefined> {
+	return vscode.window.showInputBox({
+		prompt: `Enter secret value for "${label}"`,
+		placeHolder: 'Secret value',
+		password: true,
+		ignoreFocusOut: true
+	});
+}
+
+/**
+ * Prompt the user for the command and settings of a computed leaf
+ * @param label The label of the leaf, used in the prompts
+ * @param currentCommand The current command, pre-filled in the input box
+ * @param currentOptions The current settings, pre-filled in the input boxes
+ * @returns The command and settings, or undefined if the user cancelled
+ */
+async function promptForComputedCommand(label: string, currentCommand?: string, currentOptions?: ComputedOptions): Promise<{ command: string, options: ComputedOptions } | undefined> {
+	const command = await vscode.window.showInputBox({
+		prompt: `Enter the shell command whose output is the value of "${label}"`,
+		placeHolder: 'git rev-parse --abbrev-ref HEAD',
+		value: currentCommand,
+		validateInput: (input: string) => input.trim() === '' ? 'Enter a command' : undefined
+	});
+
+	if (command === undefined) {
+		return undefined;
+	}
+
+	const cwd = await vscode.window.showInputBox({
+		prompt: 'Enter the working directory for the command (leave empty for the workspace folder)',
+		placeHolder: '${workspaceFolder}/server',
+		value: currentOptions?.cwd
+	});
+
+	if (cwd === undefined) {
+		return undefined;
+	}
+
+	const cacheTtl = await vscode.window.showInputBox({
+		prompt: 'Reuse the output for how many seconds? (leave empty to run the command every time)',
+		placeHolder: '60',
+		value: currentOptions?.cacheTtlSeconds !== undefined ? String(currentOptions.cacheTtlSeconds) : undefined,
+		validateInput: (input: string) => {
+			if (input.trim() === '') {
+				return undefined;
+			}
+			const seconds = Number(input);
+			return Number.isFinite(seconds) && seconds >= 0 ? undefined : 'Enter a non-negative number of seconds';
+		}
+	});
+
+	if (cacheTtl === undefined) {
+		return undefined;
+	}
+
+	return {
+		command,
+		options: {
+			cwd: cwd.trim() !== '' ? cwd : undefined,
+			cacheTtlSeconds: cacheTtl.trim() !== '' ? Number(cacheTtl) : undefined
+		}
+	};
+}
+
+/**
+ * Prompt the user for the options and default of a choice leaf
+ * @param label The label of the leaf, used in the prompts
+ * @param currentOptions The current options, pre-filled in the input box
+ * @param currentDefault The current default, offered first in the default picker
+ * @returns The options and default, or undefined if the user cancelled
+ */
+async function promptForChoiceOptions(label: string, currentOptions?: string[], currentDefault?: string): Promise<{ options: string[], defaultOption: string } | undefined> {
+	const parseOptions = (input: string) => input.split(',').map(option => option.trim()).filter(option => option !== '');
+
+	const optionsInput = await vscode.window.showInputBox({
+		prompt: `Enter the options for "${label}", separated by commas`,
+		placeHolder: 'debug, info, warn, error',
+		value: currentOptions?.join(', '),
+		validateInput: (input: string) => {
+			const options = parseOptions(input);
+			if (options.length === 0) {
+				return 'Enter at least one option';
+			}
+			if (new Set(options).size !== options.length) {
+				return 'Options must be unique';
+			}
+			return undefined;
+		}
+	});
+
+	if (optionsInput === undefined) {
+		return undefined;
+	}
+
+	const options = parseOptions(optionsInput);
+	if (options.length === 1) {
+		return { options, defaultOption: options[0] };
+	}
+
+	const orderedOptions = currentDefault && options.includes(currentDefault) ? [currentDefault, ...options.filter(option => option !== currentDefault)] : options;
+	const defaultOption = await vscode.window.showQuickPick(orderedOptions, {
+		placeHolder: `Select the default option for "${label}"`
+	});
+
+	return defaultOption ? { options, defaultOption } : undefined;
+}
+
+/**
+ * Prompt the user for the type and value of a leaf node
+ * @param label The label of the leaf, used in the prompts
+ * @param currentValue The current value, pre-filled in the input box
+ * @param currentType The current type, offered first in the type picker
+ * @returns The entered value and its type, or undefined if the user cancelled
+ */
+async function promptForLeafValue(label: string, currentValue?: string, currentType?: LeafValueType): Promise<{ value: string, valueType: LeafValueType } | undefined> {
+	const orderedTypes = currentType ? [currentType, ...LEAF_VALUE_TYPES.filter(valueType => valueType !== currentType)] : LEAF_VALUE_TYPES;
+	const typeItems = orderedTypes.map(valueType => ({
+		label: valueType,
+		description: valueType === currentType ? 'current' : undefined,
+		valueType
+	}));
+
+	const selectedType = await vscode.window.showQuickPick(typeItems, {
+		placeHolder: `What type of value does "${label}" hold?`
+	});
+
+	if (!selectedType) {
+		return undefined;
+	}
+
+	// Booleans only have two valid values, so offer them directly
+	if (selectedType.valueType === 'boolean') {
+		const booleanValue = await vscode.window.showQuickPick(['true', 'false'], {
+			placeHolder: `Select value for "${label}"`
+		});
+		return booleanValue ? { value: booleanValue, valueType: 'boolean' } : undefined;
+	}
+
+	const value = await vscode.window.showInputBox({
+		prompt: `Enter ${selectedType.valueType} value for "${label}"`,
+		placeHolder: selectedType.valueType === 'json' ? '{ "key": "value" } or [ "item" ]' : 'Value',
+		value: currentValue,
+		validateInput: (input: string) => {
+			// Values containing references or variables are validated when they are resolved
+			if (containsExpansions(input)) {
+				return undefined;
+			}
+			return validateLeafValue(input, selectedType.valueType);
+		}
+	});
+
+	return value !== undefined ? { value, valueType: selectedType.valueType } : undefined;
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { ExportedLeaf, KeyNaming, formatExport, toDistinctFlatKeys } from '../ConfigFileExport';
+import { parseEnvFile } from '../ConfigFileImport';
+
+const naming: KeyNaming = { separator: '_', uppercase: true };
+
+/**
+ * Format one leaf and return its line, without the header comment
+ */
+function formatLine(value: string, format: 'env' | 'shell'): string {
+    return formatExport([{ labels: ['key'], value }], format, naming, 'app').split('\n')[1];
+}
+
+suite('formatExport', () => {
+    test('writes flat keys with a header comment and omits secret values', () => {
+        const leaves: ExportedLeaf[] = [
+            { labels: ['db', 'host'], value: 'localhost' },
+            { labels: ['db', 'password'] },
+            { labels: ['api-url'], value: 'http://localhost:8080/v1' }
+        ];
+        assert.strictEqual(
+            formatExport(leaves, 'env', naming, 'app'),
+            '# Exported from debugconfigs "app"\nDB_HOST=localhost\n# DB_PASSWORD: secret value omitted\nAPI_URL=http://localhost:8080/v1\n'
+        );
+    });
+
+    test('follows the key naming', () => {
+        const leaves: ExportedLeaf[] = [{ labels: ['db', 'port'], value: 5432 }];
+        assert.strictEqual(formatExport(leaves, 'shell', { separator: '__', uppercase: false }, 'app'), '# Exported from debugconfigs "app"\nexport db__port=5432\n');
+    });
+
+    test('nests json and leaves secrets out', () => {
+        const leaves: ExportedLeaf[] = [
+            { labels: ['db', 'host'], value: 'localhost' },
+            { labels: ['db', 'port'], value: 5432 },
+            { labels: ['db', 'password'] }
+        ];
+        assert.deepStrictEqual(JSON.parse(formatExport(leaves, 'json', naming, 'app')), { db: { host: 'localhost', port: 5432 } });
+    });
+
+    test('gives keys that collide a numeric suffix', () => {
+        assert.deepStrictEqual(toDistinctFlatKeys([['db', 'host'], ['db_host'], ['DB', 'HOST']], naming), ['DB_HOST', 'DB_HOST_2', 'DB_HOST_3']);
+    });
+});
+
+suite('formatExport quoting', () => {
+    test('leaves simple env values bare and single-quotes the rest', () => {
+        assert.strictEqual(formatLine('localhost:5432', 'env'), 'KEY=localhost:5432');
+        assert.strictEqual(formatLine('hello world', 'env'), 'KEY=\'hello world\'');
+        assert.strictEqual(formatLine('$HOME/bin', 'env'), 'KEY=\'$HOME/bin\'');
+    });
+
+    test('escapes double-quoted env values, including $', () => {
+        assert.strictEqual(formatLine('it\'s "$5"\\day\nnext', 'env'), 'KEY="it\'s \\"\\$5\\"\\\\day\\nnext"');
+    });
+
+    test('writes env values that parseEnvFile reads back unchanged', () => {
+        const values = ['', 'plain', 'with spaces # and hash', 'it\'s $HOME', 'line\nbreak', 'C:\\path\\"quoted"', '${VAR} and \'$(cmd)\''];
+        const leaves: ExportedLeaf[] = values.map((value, index) => ({ labels: [`key${index}`], value }));
+        const entries = parseEnvFile(formatExport(leaves, 'env', naming, 'app'));
+        assert.deepStrictEqual(entries.map(([, value]) => value), values);
+    });
+
+    test('single-quotes shell values, writing embedded single quotes as \'\\\'\'', () => {
+        assert.strictEqual(formatLine('plain', 'shell'), 'export KEY=plain');
+        assert.strictEqual(formatLine('', 'shell'), 'export KEY=\'\'');
+        assert.strictEqual(formatLine('it\'s $HOME', 'shell'), 'export KEY=\'it\'\\\'\'s $HOME\'');
+    });
+});
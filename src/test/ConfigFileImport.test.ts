@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { parseEnvFile } from '../ConfigFileImport';
+
+suite('parseEnvFile', () => {
+    test('reads bare values, skipping comments and blank lines', () => {
+        const entries = parseEnvFile('# database\nDB_HOST=localhost\n\nDB_PORT = 5432\n');
+        assert.deepStrictEqual(entries, [['DB_HOST', 'localhost'], ['DB_PORT', '5432']]);
+    });
+
+    test('strips export prefixes and inline comments after bare values', () => {
+        const entries = parseEnvFile('export API_URL=http://localhost:8080 # local server\nEMPTY=\n');
+        assert.deepStrictEqual(entries, [['API_URL', 'http://localhost:8080'], ['EMPTY', '']]);
+    });
+
+    test('takes single-quoted values literally', () => {
+        const entries = parseEnvFile('GREETING=\'hello # not a comment \\n $HOME\'');
+        assert.deepStrictEqual(entries, [['GREETING', 'hello # not a comment \\n $HOME']]);
+    });
+
+    test('resolves escapes in double-quoted values', () => {
+        const entries = parseEnvFile('MESSAGE="say \\"hi\\"\\n\\tprice: \\$5, path: C:\\\\tmp"');
+        assert.deepStrictEqual(entries, [['MESSAGE', 'say "hi"\n\tprice: $5, path: C:\\tmp']]);
+    });
+
+    test('reads quoted values spanning several lines', () => {
+        const entries = parseEnvFile('KEY="-----BEGIN KEY-----\nabc\n-----END KEY-----"\nNEXT=1\n');
+        assert.deepStrictEqual(entries, [['KEY', '-----BEGIN KEY-----\nabc\n-----END KEY-----'], ['NEXT', '1']]);
+    });
+
+    test('keeps the last value of a repeated key, in the position of the last one', () => {
+        const entries = parseEnvFile('A=1\nB=2\nA=3\r\n');
+        assert.deepStrictEqual(entries, [['B', '2'], ['A', '3']]);
+    });
+
+    test('reports lines that are not KEY=VALUE', () => {
+        assert.throws(() => parseEnvFile('A=1\njust text\n'), /Line 2: expected KEY=VALUE/);
+    });
+
+    test('reports quotes that are never closed', () => {
+        assert.throws(() => parseEnvFile('A=1\nB="open\nstill open\n'), /Line 2: missing closing "/);
+    });
+});
@@ -0,0 +1,142 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DebugConfigTreeDataProvider, getItemLabel } from '../DebugConfigTree';
+import { diffTreeStates } from '../TreeStateDiff';
+
+/**
+ * In-memory stand-in for extension state
+ */
+class MemoryMemento implements vscode.Memento {
+    private values = new Map<string, any>();
+
+    constructor(initial: Record<string, any> = {}) {
+        Object.entries(initial).forEach(([key, value]) => this.values.set(key, value));
+    }
+
+    keys(): readonly string[] {
+        return [...this.values.keys()];
+    }
+
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.values.has(key) ? this.values.get(key) : defaultValue;
+    }
+
+    async update(key: string, value: any): Promise<void> {
+        this.values.set(key, value);
+    }
+}
+
+/**
+ * In-memory stand-in for secret storage
+ */
+class MemorySecretStorage implements vscode.SecretStorage {
+    readonly values = new Map<string, string>();
+    private _onDidChange = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+    readonly onDidChange = this._onDidChange.event;
+
+    async get(key: string): Promise<string | undefined> {
+        return this.values.get(key);
+    }
+
+    async store(key: string, value: string): Promise<void> {
+        this.values.set(key, value);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.values.delete(key);
+    }
+}
+
+const userLayer = [
+    { label: 'db', children: [{ label: 'host', value: 'user-host' }, { label: 'timeout', value: '30', valueType: 'number' }] },
+    { label: 'editor', value: 'vim' }
+];
+const workspaceLayer = [
+    { label: 'DB', children: [{ label: 'host', value: 'workspace-host' }, { label: 'port', value: '5432', valueType: 'number' }] },
+    { label: 'editor', children: [{ label: 'name', value: 'code' }] }
+];
+const localLayer = [
+    { label: 'db', children: [{ label: 'host', value: 'local-host' }] }
+];
+
+/**
+ * Load a tree from the three layers, the way the extension does on activation
+ */
+async function loadLayers(): Promise<DebugConfigTreeDataProvider> {
+    const provider = new DebugConfigTreeDataProvider(
+        [],
+        new MemoryMemento({ debugConfigTreeState: workspaceLayer, debugConfigLocalTreeState: localLayer }),
+        undefined,
+        new MemoryMemento({ debugConfigUserTreeState: userLayer })
+    );
+    await provider.loadTreeState();
+    return provider;
+}
+
+suite('DebugConfigTreeDataProvider layer merge', () => {
+    test('merges parents across layers, matching labels case-insensitively', async () => {
+        const provider = await loadLayers();
+        const db = provider.findItemByPath('db');
+        assert.deepStrictEqual(db?.children?.map(getItemLabel).sort(), ['host', 'port', 'timeout']);
+        assert.strictEqual(provider.findItemByPath('db.timeout')?.layer, 'user');
+        assert.strictEqual(provider.findItemByPath('db.port')?.layer, 'workspace');
+    });
+
+    test('lets the highest priority layer win and keeps the others as shadows', async () => {
+        const provider = await loadLayers();
+        const host = provider.findItemByPath('db.host');
+        assert.strictEqual(host?.value, 'local-host');
+        assert.strictEqual(host?.layer, 'local');
+        assert.deepStrictEqual(host?.shadows.map(shadow => [shadow.layer, shadow.value]), [['workspace', 'workspace-host'], ['user', 'user-host']]);
+    });
+
+    test('lets a parent in a higher layer hide a leaf in a lower one', async () => {
+        const provider = await loadLayers();
+        const editor = provider.findItemByPath('editor');
+        assert.strictEqual(editor?.value, undefined);
+        assert.strictEqual(provider.findItemByPath('editor.name')?.value, 'code');
+        assert.deepStrictEqual(editor?.shadows.map(shadow => [shadow.layer, shadow.value]), [['user', 'vim']]);
+    });
+
+    test('serializes each layer back as it was loaded', async () => {
+        const provider = await loadLayers();
+        const layers = provider.serializeLayers();
+        assert.deepStrictEqual(diffTreeStates(layers.workspace, workspaceLayer), []);
+        assert.deepStrictEqual(diffTreeStates(layers.local, localLayer), []);
+    });
+});
+
+suite('DebugConfigTreeDataProvider import', () => {
+    let filePath: string;
+
+    setup(() => {
+        filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'debugconfigs-')), 'import.json');
+        fs.writeFileSync(filePath, JSON.stringify({ treeState: [{ label: 'db', children: [{ label: 'password', kind: 'secret' }] }] }));
+    });
+
+    teardown(() => {
+        fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+    });
+
+    for (const mode of ['replace', 'mergeKeepOurs'] as const) {
+        test(`prompts for secret placeholders without a key and stores the value under the key the tree uses (${mode})`, async () => {
+            const secretStorage = new MemorySecretStorage();
+            const provider = new DebugConfigTreeDataProvider([], new MemoryMemento(), secretStorage, new MemoryMemento());
+            const prompted: string[] = [];
+
+            await provider.importTreeStateFromFile(filePath, async secretPath => {
+                prompted.push(secretPath);
+                return 'hunter2';
+            }, mode);
+
+            assert.deepStrictEqual(prompted, ['db.password']);
+            const secretId = provider.findItemByPath('db.password')?.secretId;
+            assert.ok(secretId);
+            assert.deepStrictEqual([...secretStorage.values.keys()], [`debugConfigs.secret.${secretId}`]);
+            assert.strictEqual(await provider.resolvePath('db.password'), 'hunter2');
+        });
+    }
+});
@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as jsonc from 'jsonc-parser';
+import { InputSyncChange, REPLACE_COMMAND, ReplaceInputDefinition, syncReplaceInputs } from '../LaunchConfigFiles';
+
+const leafPaths = ['db.host', 'db.port', 'dev.url'];
+
+/**
+ * Build a replace input the way the tree generates them
+ */
+function leafInput(itemPath: string): ReplaceInputDefinition {
+    return { id: itemPath, type: 'command', command: REPLACE_COMMAND, args: { path: itemPath } };
+}
+
+/**
+ * Sync a file against a tree with db.host, db.port and dev.url leaves, with dev as the active profile
+ */
+function sync(content: string, changes: InputSyncChange[]) {
+    return syncReplaceInputs(content, {
+        pointsAtLeaf: itemPath => leafPaths.includes(itemPath.toLowerCase().replace(/^@profile\./, 'dev.')),
+        expandPath: itemPath => itemPath.replace(/^@profile\./i, 'dev.'),
+        generateId: itemPath => itemPath.toLowerCase(),
+        leafInputs: leafPaths.map(leafInput),
+        changes
+    });
+}
+
+/**
+ * Build a launch.json whose inputs point at the given paths
+ */
+function launchJson(inputs: Array<{ id: string, path: string }>): string {
+    const lines = inputs.map(input => `    // use this: \${input:${input.id}}\n    { "id": "${input.id}", "type": "command", "command": "${REPLACE_COMMAND}", "args": { "path": "${input.path}" } }`);
+    return `{\n  "configurations": [{ "name": "App", "env": { "HOST": "\${input:${inputs[0].id}}" } }],\n  "inputs": [\n${lines.join(',\n')}\n  ]\n}\n`;
+}
+
+/**
+ * The IDs of the inputs in a configuration file, in order
+ */
+function inputIds(content: string): string[] {
+    const errors: jsonc.ParseError[] = [];
+    const config = jsonc.parse(content, errors);
+    assert.deepStrictEqual(errors, [], `Invalid JSON:\n${content}`);
+    return (config.inputs ?? []).map((input: any) => input.id);
+}
+
+suite('syncReplaceInputs', () => {
+    test('leaves a file that is in sync unchanged', () => {
+        const content = launchJson([{ id: 'db.host', path: 'db.host' }, { id: 'db.port', path: 'db.port' }, { id: 'dev.url', path: 'dev.url' }]);
+        const result = sync(content, ['remove', 'rename', 'add']);
+        assert.strictEqual(result.content, content);
+        assert.deepStrictEqual([result.removed, result.renamed, result.added], [[], [], []]);
+    });
+
+    test('removes stale inputs with their comments and commas, wherever they are in the array', () => {
+        for (const stale of [0, 1, 2]) {
+            const inputs = [{ id: 'db.host', path: 'db.host' }, { id: 'db.port', path: 'db.port' }, { id: 'dev.url', path: 'dev.url' }];
+            inputs[stale] = { id: 'old', path: 'db.old' };
+            const result = sync(launchJson(inputs), ['remove']);
+
+            assert.deepStrictEqual(inputIds(result.content), inputs.filter((_, index) => index !== stale).map(input => input.id));
+            assert.deepStrictEqual(result.removed, [{ id: 'old', path: 'db.old' }]);
+            assert.ok(!result.content.includes('// use this: ${input:old}'), result.content);
+            assert.deepStrictEqual(result.unresolvedUsages, stale === 0 ? ['old'] : []);
+        }
+    });
+
+    test('finds the separating commas past comments that contain commas', () => {
+        const input = (id: string, itemPath: string) => `{ "id": "${id}", "type": "command", "command": "${REPLACE_COMMAND}", "args": { "path": "${itemPath}" } }`;
+        for (const stale of [0, 1, 2]) {
+            const ids = ['db.host', 'db.port', 'dev.url'];
+            ids[stale] = 'old';
+            const elements = ids.map(id => input(id, id === 'old' ? 'db.old' : id));
+            const content = `{\n  "inputs": [\n    ${elements[0]} /* host, then port */ ,\n    // port, see above\n    ${elements[1]} // port, then url\n    , /* url, last */ ${elements[2]} // done, really\n  ]\n}\n`;
+            const result = sync(content, ['remove']);
+            assert.deepStrictEqual(inputIds(result.content), ids.filter(id => id !== 'old'));
+        }
+    });
+
+    test('empties the inputs array when every input is stale', () => {
+        const result = sync(launchJson([{ id: 'a', path: 'gone.a' }, { id: 'b', path: 'gone.b' }]), ['remove']);
+        assert.deepStrictEqual(inputIds(result.content), []);
+    });
+
+    test('renames inputs and their usages, but never to an ID that is taken', () => {
+        const content = launchJson([{ id: 'host', path: 'db.host' }, { id: 'port', path: 'db.port' }, { id: 'db.port', path: 'dev.url' }]);
+        const result = sync(content, ['rename']);
+        assert.deepStrictEqual(result.renamed, [{ oldId: 'host', newId: 'db.host' }, { oldId: 'db.port', newId: 'dev.url' }]);
+        assert.deepStrictEqual(inputIds(result.content), ['db.host', 'port', 'dev.url']);
+        assert.ok(result.content.includes('"HOST": "${input:db.host}"'));
+        assert.ok(result.content.includes('// use this: ${input:db.host}'));
+    });
+
+    test('adds inputs for uncovered leaves, counting @profile inputs as covering theirs', () => {
+        const result = sync(launchJson([{ id: 'url', path: '@profile.url' }]), ['add']);
+        assert.deepStrictEqual(result.added.map(input => input.id), ['db.host', 'db.port']);
+        assert.deepStrictEqual(inputIds(result.content), ['url', 'db.host', 'db.port']);
+    });
+
+    test('applies each kind of change the same way whichever others are applied', () => {
+        const content = launchJson([{ id: 'db.host', path: 'db.old' }, { id: 'port', path: 'db.port' }]);
+        const all = sync(content, ['remove', 'rename', 'add']);
+        assert.deepStrictEqual(all.removed, [{ id: 'db.host', path: 'db.old' }]);
+        assert.deepStrictEqual(all.renamed, [{ oldId: 'port', newId: 'db.port' }]);
+        assert.deepStrictEqual(all.added.map(input => input.id), ['dev.url']);
+
+        assert.deepStrictEqual(sync(content, ['rename']).renamed, all.renamed);
+        assert.deepStrictEqual(sync(content, ['add']).added, all.added);
+        assert.deepStrictEqual(inputIds(sync(content, ['add']).content), ['db.host', 'port', 'dev.url']);
+    });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { diffLayeredStates, restoreSubtree } from '../TreeSnapshots';
+import { LayeredTreeState } from '../TreeHistory';
+
+const snapshot: LayeredTreeState = {
+    workspace: [
+        { label: 'db', children: [{ label: 'host', value: 'localhost' }, { label: 'port', value: '5432' }] },
+        { label: 'api', children: [{ label: 'url', value: 'http://localhost' }] }
+    ],
+    local: [{ label: 'db', children: [{ label: 'password', kind: 'secret', secretId: 'old' }] }]
+};
+
+const current: LayeredTreeState = {
+    workspace: [
+        { label: 'db', children: [{ label: 'host', value: 'db.internal' }, { label: 'name', value: 'app' }] },
+        { label: 'api', children: [{ label: 'url', value: 'https://api.example.com' }] }
+    ],
+    local: []
+};
+
+suite('restoreSubtree', () => {
+    test('restores the subtree in every layer and removes nodes the snapshot does not have', () => {
+        const result = restoreSubtree(current, snapshot, 'db');
+        assert.deepStrictEqual(diffLayeredStates(result, { workspace: [snapshot.workspace[0], current.workspace[1]], local: snapshot.local }), []);
+        assert.deepStrictEqual(result.local, snapshot.local);
+    });
+
+    test('leaves everything outside the subtree as it is now', () => {
+        const result = restoreSubtree(current, snapshot, 'db.host');
+        assert.deepStrictEqual(result.workspace, [
+            { label: 'db', children: [{ label: 'host', value: 'localhost' }, { label: 'name', value: 'app' }] },
+            current.workspace[1]
+        ]);
+        assert.deepStrictEqual(result.local, []);
+    });
+
+    test('does not treat paths that only start with the same text as part of the subtree', () => {
+        const result = restoreSubtree(
+            { workspace: [{ label: 'dbx', value: 'now' }], local: [] },
+            { workspace: [{ label: 'dbx', value: 'then' }], local: [] },
+            'db'
+        );
+        assert.deepStrictEqual(result.workspace, [{ label: 'dbx', value: 'now' }]);
+    });
+});
+
+suite('diffLayeredStates', () => {
+    test('lists each changed path once, whichever layers it changed in', () => {
+        assert.deepStrictEqual(diffLayeredStates(current, snapshot), ['db.host', 'db.port', 'db.name', 'api.url', 'db.password']);
+        assert.deepStrictEqual(diffLayeredStates(snapshot, snapshot), []);
+    });
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { applyTreeStateChanges, diffTreeStates, selectChangesForMode } from '../TreeStateDiff';
+
+const ours = [
+    {
+        label: 'DB', children: [
+            { label: 'host', value: 'localhost' },
+            { label: 'port', value: '5432', valueType: 'number' },
+            { label: 'password', kind: 'secret', secretId: 'ours' }
+        ]
+    },
+    { label: 'dev', isProfile: true, children: [{ label: 'url', value: 'http://localhost' }] },
+    { label: 'debug', value: 'true', valueType: 'boolean' },
+    { label: 'old', value: 'gone' }
+];
+
+const theirs = [
+    {
+        label: 'db', children: [
+            { label: 'host', value: 'db.internal' },
+            { label: 'port', value: '5432', valueType: 'number' },
+            { label: 'password', kind: 'secret', secretId: 'theirs' },
+            { label: 'name', value: 'app' }
+        ]
+    },
+    { label: 'dev', isProfile: true, extends: 'base', children: [{ label: 'url', value: 'http://localhost' }] },
+    { label: 'debug', children: [{ label: 'level', value: 'verbose' }] },
+    { label: 'cache', children: [{ label: 'ttl', value: '60', valueType: 'number' }] }
+];
+
+suite('diffTreeStates', () => {
+    test('matches nodes by lowercased path and reports every kind of difference in tree order', () => {
+        const changes = diffTreeStates(ours, theirs).map(change => `${change.kind} ${change.path}`);
+        assert.deepStrictEqual(changes, [
+            'changed db.host',
+            'added db.name',
+            'changed dev',
+            'conflict debug',
+            'added cache.ttl',
+            'removed old'
+        ]);
+    });
+
+    test('treats secrets as equal whatever their keys, and equal trees as having no differences', () => {
+        assert.deepStrictEqual(diffTreeStates(ours, ours), []);
+        const otherSecret = [{ label: 'password', kind: 'secret', secretId: 'other' }];
+        assert.deepStrictEqual(diffTreeStates([{ label: 'password', kind: 'secret', secretId: 'mine' }], otherSecret), []);
+    });
+
+    test('compares value types and ignores the last choice', () => {
+        const choice = { label: 'env', kind: 'choice', options: ['dev', 'prod'], value: 'dev' };
+        assert.deepStrictEqual(diffTreeStates([choice], [{ ...choice, lastChoice: 'prod' }]), []);
+        const changes = diffTreeStates([{ label: 'port', value: '8080' }], [{ label: 'port', value: '8080', valueType: 'number' }]);
+        assert.deepStrictEqual(changes.map(change => change.kind), ['changed']);
+    });
+});
+
+suite('selectChangesForMode', () => {
+    test('keeps only what each merge mode applies', () => {
+        const changes = diffTreeStates(ours, theirs);
+        assert.deepStrictEqual(selectChangesForMode(changes, 'mergeKeepOurs').map(change => change.path), ['db.name', 'cache.ttl']);
+        assert.deepStrictEqual(selectChangesForMode(changes, 'mergeTakeTheirs').map(change => change.path), ['db.host', 'db.name', 'dev', 'debug', 'cache.ttl']);
+        assert.strictEqual(selectChangesForMode(changes, 'interactive').length, changes.length);
+    });
+});
+
+suite('applyTreeStateChanges', () => {
+    test('applies every change to give their tree, keeping our labels and secret keys where nodes match', () => {
+        const result = applyTreeStateChanges(ours, theirs, diffTreeStates(ours, theirs));
+        assert.deepStrictEqual(diffTreeStates(result, theirs), []);
+        assert.strictEqual(result[0].label, 'DB');
+        assert.strictEqual(result[0].children[2].secretId, 'ours');
+    });
+
+    test('updates parent settings without touching their children', () => {
+        const result = applyTreeStateChanges(ours, theirs, diffTreeStates(ours, theirs).filter(change => change.path === 'dev'));
+        assert.deepStrictEqual(result[1], { label: 'dev', isProfile: true, extends: 'base', children: [{ label: 'url', value: 'http://localhost' }] });
+    });
+
+    test('creates missing parents from theirs without their other children', () => {
+        const result = applyTreeStateChanges([], theirs, diffTreeStates([], theirs).filter(change => change.path === 'db.name'));
+        assert.deepStrictEqual(result, [{ label: 'db', children: [{ label: 'name', value: 'app' }] }]);
+    });
+
+    test('does not modify its inputs', () => {
+        const before = JSON.stringify(ours);
+        applyTreeStateChanges(ours, theirs, diffTreeStates(ours, theirs));
+        assert.strictEqual(JSON.stringify(ours), before);
+    });
+
+    test('reports changes that point at nodes theirs does not have', () => {
+        assert.throws(() => applyTreeStateChanges(ours, [], [{ kind: 'added', path: 'missing' }]), /no node at "missing"/);
+    });
+});